@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useCallback } from 'react';
 import { MapCanvas } from './components/MapCanvas';
 import type { MapCanvasHandle } from './components/MapCanvas';
 import { StatsPanel } from './components/StatsPanel';
@@ -6,8 +6,22 @@ import { ControlsPanel } from './components/ControlsPanel';
 import { PerformanceMonitor } from './components/PerformanceMonitor';
 import { DataStore } from './core/DataStore';
 import { ConstraintsPanel } from './components/ConstraintsPanel';
-import type { Constraint } from './core/types';
+import { ParetoPanel } from './components/ParetoPanel';
+import { OutlierPanel } from './components/OutlierPanel';
+import { ComparePanel } from './components/ComparePanel';
+import { CommunitiesPanel } from './components/CommunitiesPanel';
+import { PlanPanel } from './components/PlanPanel';
+import { DataPanel } from './components/DataPanel';
+import type { AnalysisOptions, Constraint, RedistrictOptions } from './core/types';
 import type { PrecinctData } from './core/DataStore';
+import type { ParetoFront, ParetoObjective } from './core/pareto';
+import type { OpportunityGoal } from './core/vra';
+import { DEFAULT_PROJECTION } from './core/forecast';
+import type { ProjectionOptions } from './core/forecast';
+import type { Community } from './core/communities';
+import type { PlanDocument } from './core/planDocument';
+import type { PrecinctPropertyMapping } from './core/precinctImport';
+import type { DistrictExportFormat } from './core/districtExport';
 
 function App() {
   const mapRef = useRef<MapCanvasHandle>(null);
@@ -17,6 +31,15 @@ function App() {
   const [constraints, setConstraints] = useState<Constraint[]>([]);
   const [viewMode, setViewMode] = useState<'district' | 'political'>('district');
   const [isRedistricting, setIsRedistricting] = useState(false);
+  const [opportunityGoals, setOpportunityGoals] = useState<OpportunityGoal[]>([]);
+  const [highlightOpportunity, setHighlightOpportunity] = useState(false);
+  const [opportunityDistricts, setOpportunityDistricts] = useState<number[]>([]);
+  const [projection, setProjection] = useState<ProjectionOptions>(DEFAULT_PROJECTION);
+  const [communities, setCommunities] = useState<Community[]>([]);
+  const [communitySplitWeight, setCommunitySplitWeight] = useState(0);
+  const [controlSettings, setControlSettings] = useState<RedistrictOptions>({ runs: 1, isAuto: false });
+  const [analysisOptions, setAnalysisOptions] = useState<AnalysisOptions>({});
+  const [restoredSettings, setRestoredSettings] = useState<{ key: number, settings?: RedistrictOptions }>({ key: 0 });
 
   useEffect(() => {
     // Initial load
@@ -25,11 +48,20 @@ function App() {
     }
   }, []);
 
-  const handleAutoRedistrict = async (config: { runs: number; isAuto: boolean }) => {
+  useEffect(() => {
+    mapRef.current?.setHighlightedDistricts(highlightOpportunity ? opportunityDistricts : []);
+  }, [highlightOpportunity, opportunityDistricts]);
+
+  // Stable identity so StatsPanel's polling effect isn't restarted on every render
+  const handleOpportunityDistricts = useCallback((districtIds: number[]) => {
+    setOpportunityDistricts(prev => prev.length === districtIds.length && prev.every((id, i) => id === districtIds[i]) ? prev : districtIds);
+  }, []);
+
+  const handleAutoRedistrict = async (config: RedistrictOptions) => {
     if (mapRef.current) {
       setIsRedistricting(true);
       try {
-        await mapRef.current.startAutoRedistrict(constraints, config);
+        await mapRef.current.startAutoRedistrict(constraints, { ...config, opportunityGoals, projection, communities, communitySplitWeight });
         handleUpdate();
       } catch (e) {
         console.error(e);
@@ -41,6 +73,75 @@ function App() {
     }
   };
 
+  const handleExploreParetoFront = async (stateId: number, objectives: ParetoObjective[], runs: number): Promise<ParetoFront[]> => {
+    if (!mapRef.current) return [];
+    const { contiguous, seed, schedule, countySplitWeight, retentionWeight } = controlSettings;
+    return mapRef.current.exploreParetoFront(constraints, { runs, isAuto: false, contiguous, seed, schedule, countySplitWeight, retentionWeight, objectives, stateIds: [stateId], opportunityGoals, projection, communities, communitySplitWeight });
+  };
+
+  const handleApplyPlan = async (updates: { id: number, districtId: number }[]) => {
+    if (mapRef.current) {
+      await mapRef.current.applyAssignment(updates);
+      handleUpdate();
+    }
+  };
+
+  const handleSavePlan = async (name: string): Promise<PlanDocument | null> => {
+    if (!mapRef.current) return null;
+    const settings = { ...controlSettings, opportunityGoals, projection, communities, communitySplitWeight };
+    return mapRef.current.savePlan({ name, constraints, settings });
+  };
+
+  const handleLoadPlan = async (input: unknown) => {
+    if (!mapRef.current) return null;
+    const loaded = await mapRef.current.loadPlan(input);
+    if (!loaded) return null;
+    const { settings } = loaded.plan;
+    setConstraints(loaded.plan.constraints);
+    setOpportunityGoals(settings.opportunityGoals ?? []);
+    setProjection(settings.projection ?? DEFAULT_PROJECTION);
+    setCommunities(settings.communities ?? []);
+    setCommunitySplitWeight(settings.communitySplitWeight ?? 0);
+    // Remount ControlsPanel so it picks up the saved algorithm settings
+    setRestoredSettings(prev => ({ key: prev.key + 1, settings }));
+    handleUpdate();
+    return loaded;
+  };
+
+  const handleExportDistricts = async (format: DistrictExportFormat, name: string) => {
+    return mapRef.current ? mapRef.current.exportDistricts(format, name, { ...analysisOptions, communities }) : null;
+  };
+
+  // Community and selection ids refer to the old precincts, so they're dropped
+  const handleLoadPrecinctFile = async (data: unknown, name: string, mapping: PrecinctPropertyMapping) => {
+    if (!mapRef.current) return null;
+    setCommunities([]);
+    setSelectedPrecinct(null);
+    const result = await mapRef.current.loadPrecinctFile(data, name, mapping);
+    handleUpdate();
+    return result;
+  };
+
+  const handleSetBaseline = async (assignment: Map<number, number> | null) => {
+    await mapRef.current?.setBaseline(assignment);
+  };
+
+  const handleStartDrawing = (onComplete: (ring: number[]) => void) => {
+    mapRef.current?.startPolygonDrawing(onComplete);
+  };
+
+  const handleCancelDrawing = () => {
+    mapRef.current?.cancelPolygonDrawing();
+  };
+
+  const handleHighlightCommunity = (precinctIds: number[]) => {
+    mapRef.current?.setCommunityPrecincts(precinctIds);
+  };
+
+  const handleShowChanges = (precinctIds: number[]) => {
+    mapRef.current?.setChangedPrecincts(precinctIds);
+  };
+
   const handleUpdate = () => {
     setUpdateTrigger(prev => prev + 1);
     if (mapRef.current) {
@@ -93,15 +194,43 @@ function App() {
       </div>
 
       <PerformanceMonitor />
-      <StatsPanel selectedPrecinct={selectedPrecinct} />
-      <ConstraintsPanel constraints={constraints} onConstraintsChange={setConstraints} />
+      <StatsPanel selectedPrecinct={selectedPrecinct} onOpportunityDistricts={handleOpportunityDistricts} communities={communities} onAnalysisOptionsChange={setAnalysisOptions} projection={projection} onProjectionChange={setProjection} />
+      <ConstraintsPanel 
+        constraints={constraints} 
+        onConstraintsChange={setConstraints} 
+        opportunityGoals={opportunityGoals}
+        onOpportunityGoalsChange={setOpportunityGoals}
+        projection={projection}
+        onProjectionChange={setProjection}
+      />
+      <CommunitiesPanel
+        dataStore={dataStore}
+        selectedPrecinct={selectedPrecinct}
+        communities={communities}
+        onCommunitiesChange={setCommunities}
+        communitySplitWeight={communitySplitWeight}
+        onCommunitySplitWeightChange={setCommunitySplitWeight}
+        onStartDrawing={handleStartDrawing}
+        onCancelDrawing={handleCancelDrawing}
+        onHighlight={handleHighlightCommunity}
+      />
       <ControlsPanel 
+        key={restoredSettings.key}
         onGenerateBorders={handleGenerateBorders}
         viewMode={viewMode}
         onSetViewMode={handleSetViewMode}
+        highlightOpportunity={highlightOpportunity}
+        onHighlightOpportunityChange={setHighlightOpportunity}
         onAutoRedistrict={handleAutoRedistrict}
         isRedistricting={isRedistricting}
+        initialSettings={restoredSettings.settings}
+        onSettingsChange={setControlSettings}
       />
+      <OutlierPanel />
+      <DataPanel onLoad={handleLoadPrecinctFile} />
+      <PlanPanel dataStore={dataStore} onApply={handleApplyPlan} onSavePlan={handleSavePlan} onLoadPlan={handleLoadPlan} onExportDistricts={handleExportDistricts} />
+      <ParetoPanel onExplore={handleExploreParetoFront} onApply={handleApplyPlan} />
+      <ComparePanel dataStore={dataStore} onShowChanges={handleShowChanges} onSetBaseline={handleSetBaseline} />
     </div>
   );
 }
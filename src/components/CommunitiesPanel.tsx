@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import type { DataStore, PrecinctData } from '../core/DataStore';
+import type { Community } from '../core/communities';
+
+interface CommunitiesPanelProps {
+  dataStore: DataStore;
+  selectedPrecinct?: PrecinctData | null;
+  communities: Community[];
+  onCommunitiesChange: (communities: Community[]) => void;
+  communitySplitWeight: number;
+  onCommunitySplitWeightChange: (weight: number) => void;
+  onStartDrawing: (onComplete: (ring: number[]) => void) => void;
+  onCancelDrawing: () => void;
+  onHighlight: (precinctIds: number[]) => void;
+}
+
+export const CommunitiesPanel: React.FC<CommunitiesPanelProps> = ({
+  dataStore,
+  selectedPrecinct,
+  communities,
+  onCommunitiesChange,
+  communitySplitWeight,
+  onCommunitySplitWeightChange,
+  onStartDrawing,
+  onCancelDrawing,
+  onHighlight
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [idsInput, setIdsInput] = useState('');
+  const [isDrawing, setIsDrawing] = useState(false);
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  const nextName = () => name.trim() || `Community ${communities.length + 1}`;
+
+  const setActive = (community: Community | null) => {
+    setActiveId(community?.id ?? null);
+    onHighlight(community?.precinctIds ?? []);
+  };
+
+  const addCommunity = (community: Omit<Community, 'id' | 'name'>) => {
+    const created: Community = { id: Math.random().toString(36).substr(2, 9), name: nextName(), ...community };
+    onCommunitiesChange([...communities, created]);
+    setName('');
+    setActive(created);
+  };
+
+  const updateCommunity = (id: string, updates: Partial<Community>) => {
+    onCommunitiesChange(communities.map(c => c.id === id ? { ...c, ...updates } : c));
+  };
+
+  const removeCommunity = (id: string) => {
+    onCommunitiesChange(communities.filter(c => c.id !== id));
+    if (activeId === id) setActive(null);
+  };
+
+  const handleDraw = () => {
+    if (isDrawing) {
+      onCancelDrawing();
+      setIsDrawing(false);
+      return;
+    }
+    setIsDrawing(true);
+    onStartDrawing(ring => {
+      setIsDrawing(false);
+      addCommunity({ precinctIds: dataStore.getPrecinctsInPolygon(ring), polygon: ring });
+    });
+  };
+
+  const handleAddIds = () => {
+    const ids = idsInput.split(/[\s,]+/).map(Number).filter(id => Number.isInteger(id) && dataStore.getPrecinct(id));
+    if (ids.length === 0) return;
+    addCommunity({ precinctIds: Array.from(new Set(ids)) });
+    setIdsInput('');
+  };
+
+  // Toggle the selected precinct's membership in the active community
+  const toggleSelected = () => {
+    const active = communities.find(c => c.id === activeId);
+    if (!active || !selectedPrecinct) return;
+    const precinctIds = active.precinctIds.includes(selectedPrecinct.id)
+      ? active.precinctIds.filter(id => id !== selectedPrecinct.id)
+      : [...active.precinctIds, selectedPrecinct.id];
+    updateCommunity(active.id, { precinctIds });
+    onHighlight(precinctIds);
+  };
+
+  const active = communities.find(c => c.id === activeId);
+
+  return (
+    <div className="absolute top-4 right-[26rem] bg-slate-900/80 backdrop-blur-xl rounded-xl border border-slate-700/50 shadow-2xl p-5 w-80 transition-all duration-300 hover:bg-slate-900/90 max-h-[60vh] overflow-y-auto z-20">
+      <div className="flex justify-between items-center cursor-pointer" onClick={() => setIsOpen(!isOpen)}>
+        <h2 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Communities of Interest</h2>
+        <span className="text-slate-400 text-xs">{isOpen ? '▼' : '▶'}</span>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-3 text-xs">
+          <div className="space-y-2">
+            {communities.map(c => (
+              <div
+                key={c.id}
+                className={`flex items-center gap-2 p-2 rounded border ${c.id === activeId ? 'bg-cyan-500/10 border-cyan-500/40' : 'bg-slate-800/50 border-slate-700'}`}
+              >
+                <input
+                  type="text"
+                  value={c.name}
+                  onChange={(e) => updateCommunity(c.id, { name: e.target.value })}
+                  className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300"
+                />
+                <span className="font-mono text-slate-500" title={c.polygon ? 'Drawn area' : 'Precinct list'}>
+                  {c.precinctIds.length}{c.polygon ? ' ⬠' : ''}
+                </span>
+                <button
+                  onClick={() => setActive(c.id === activeId ? null : c)}
+                  className="px-1.5 py-0.5 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded text-[10px] font-bold uppercase"
+                >
+                  {c.id === activeId ? 'Hide' : 'Show'}
+                </button>
+                <button
+                  onClick={() => removeCommunity(c.id)}
+                  className="text-red-400 hover:text-red-300 px-1"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            {communities.length === 0 && (
+              <div className="text-slate-500 italic">No communities defined</div>
+            )}
+          </div>
+
+          {active && (
+            <button
+              onClick={toggleSelected}
+              disabled={!selectedPrecinct}
+              className="w-full py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded border border-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {selectedPrecinct && active.precinctIds.includes(selectedPrecinct.id) ? 'Remove' : 'Add'} Selected Precinct {selectedPrecinct ? `(${selectedPrecinct.id})` : ''}
+            </button>
+          )}
+
+          <div className="pt-3 border-t border-slate-700/50 space-y-2">
+            <input
+              type="text"
+              value={name}
+              placeholder={`Community ${communities.length + 1}`}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300"
+            />
+            <button
+              onClick={handleDraw}
+              className={`w-full py-1.5 font-bold rounded transition-colors ${isDrawing ? 'bg-cyan-700 text-white' : 'bg-cyan-600 hover:bg-cyan-500 text-white'}`}
+            >
+              {isDrawing ? 'Cancel Drawing (double-click map to finish)' : '+ Draw Area'}
+            </button>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={idsInput}
+                placeholder="Precinct IDs, comma separated"
+                onChange={(e) => setIdsInput(e.target.value)}
+                className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300"
+              />
+              <button
+                onClick={handleAddIds}
+                className="px-2 py-0.5 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded text-[10px] font-bold uppercase"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between bg-slate-800/50 p-2 rounded border border-slate-700">
+            <span className="text-slate-300" title="Annealing cost added per community split (districts spanned - 1)">Community Split Penalty</span>
+            <input
+              type="number"
+              min="0"
+              step="0.1"
+              value={communitySplitWeight}
+              onChange={(e) => onCommunitySplitWeightChange(Math.max(0, Number(e.target.value) || 0))}
+              className="w-16 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-right text-slate-200 focus:outline-none focus:border-blue-500"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import type { DataStore } from '../core/DataStore';
+import { diffPlans } from '../core/planDiff';
+import type { PlanDiff } from '../core/planDiff';
+
+interface ComparePanelProps {
+  dataStore: DataStore;
+  onShowChanges: (precinctIds: number[]) => void;
+  onSetBaseline: (assignment: Map<number, number> | null) => Promise<void>;
+}
+
+type Slot = 'base' | 'proposed';
+
+const signed = (v: number) => `${v > 0 ? '+' : ''}${v.toLocaleString()}`;
+
+export const ComparePanel: React.FC<ComparePanelProps> = ({ dataStore, onShowChanges, onSetBaseline }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [plans, setPlans] = useState<Record<Slot, Map<number, number> | null>>({ base: null, proposed: null });
+  const [diff, setDiff] = useState<PlanDiff | null>(null);
+  const [showOverlay, setShowOverlay] = useState(true);
+  const [baselineSize, setBaselineSize] = useState<number | null>(null);
+
+  const capture = (slot: Slot) => {
+    setPlans(prev => ({ ...prev, [slot]: dataStore.getAssignment() }));
+  };
+
+  const handleCompare = () => {
+    if (!plans.base) return;
+    // Without a captured proposal, compare against the plan on the map right now
+    const proposed = plans.proposed ?? dataStore.getAssignment();
+    const result = diffPlans(plans.base, proposed, id => dataStore.getPrecinct(id)?.stats);
+    setDiff(result);
+    onShowChanges(showOverlay ? result.changed.map(c => c.id) : []);
+  };
+
+  const toggleOverlay = (show: boolean) => {
+    setShowOverlay(show);
+    onShowChanges(show && diff ? diff.changed.map(c => c.id) : []);
+  };
+
+  // Core retention reference: slot A when captured, otherwise the plan on the map right now
+  const markBaseline = async () => {
+    const assignment = plans.base ?? dataStore.getAssignment();
+    await onSetBaseline(assignment);
+    setBaselineSize(assignment.size);
+  };
+
+  const clearBaseline = async () => {
+    await onSetBaseline(null);
+    setBaselineSize(null);
+  };
+
+  const clear = () => {
+    setPlans({ base: null, proposed: null });
+    setDiff(null);
+    onShowChanges([]);
+  };
+
+  return (
+    <div className="absolute bottom-6 left-[41rem] bg-slate-900/80 backdrop-blur-xl rounded-xl border border-slate-700/50 shadow-2xl p-5 w-80 transition-all duration-300 hover:bg-slate-900/90 max-h-[60vh] overflow-y-auto">
+      <div className="flex justify-between items-center cursor-pointer" onClick={() => setIsOpen(!isOpen)}>
+        <h2 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Compare Plans</h2>
+        <span className="text-slate-400 text-xs">{isOpen ? '▼' : '▶'}</span>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-3 text-xs">
+          {(['base', 'proposed'] as Slot[]).map(slot => (
+            <div key={slot} className="flex items-center justify-between bg-slate-800/50 p-2 rounded border border-slate-700">
+              <span className="text-slate-300">
+                {slot === 'base' ? 'A: Baseline' : 'B: Proposed'}
+                <span className="text-slate-500 ml-1">
+                  {plans[slot] ? `(${plans[slot]!.size.toLocaleString()} precincts)` : slot === 'proposed' ? '(current map)' : '(empty)'}
+                </span>
+              </span>
+              <button
+                onClick={() => capture(slot)}
+                className="px-2 py-0.5 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded text-[10px] font-bold uppercase"
+              >
+                Capture
+              </button>
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleCompare}
+              disabled={!plans.base}
+              className="flex-1 py-2 bg-fuchsia-600 hover:bg-fuchsia-500 text-white font-medium rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Compare A → B
+            </button>
+            <button
+              onClick={clear}
+              className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg border border-slate-700"
+            >
+              Clear
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between bg-slate-800/50 p-2 rounded border border-slate-700">
+            <span className="text-slate-300" title="Reference plan for core retention in the analysis and annealer">
+              Retention Baseline
+              <span className="text-slate-500 ml-1">
+                {baselineSize !== null ? `(${baselineSize.toLocaleString()} precincts)` : '(none)'}
+              </span>
+            </span>
+            <span className="flex gap-1">
+              <button
+                onClick={markBaseline}
+                className="px-2 py-0.5 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded text-[10px] font-bold uppercase"
+              >
+                {plans.base ? 'Use A' : 'Use Map'}
+              </button>
+              {baselineSize !== null && (
+                <button
+                  onClick={clearBaseline}
+                  className="px-2 py-0.5 bg-slate-800 hover:bg-slate-700 text-slate-400 rounded text-[10px] font-bold uppercase"
+                >
+                  ×
+                </button>
+              )}
+            </span>
+          </div>
+
+          {diff && (
+            <>
+              <label className="flex items-center justify-between cursor-pointer">
+                <span className="text-slate-300">
+                  <span className="font-mono text-fuchsia-400">{diff.changed.length.toLocaleString()}</span> precincts changed
+                </span>
+                <span className="flex items-center gap-1 text-[10px] text-slate-400 uppercase font-bold">
+                  Overlay
+                  <input
+                    type="checkbox"
+                    checked={showOverlay}
+                    onChange={(e) => toggleOverlay(e.target.checked)}
+                    className="w-3 h-3 rounded border-slate-600 text-fuchsia-600 focus:ring-0 focus:ring-offset-0 bg-slate-900"
+                  />
+                </span>
+              </label>
+
+              {diff.transfers.length > 0 && (
+                <div className="pt-2 border-t border-slate-800">
+                  <h3 className="text-[10px] font-bold text-slate-500 uppercase mb-1">Population Moved</h3>
+                  {diff.transfers.slice(0, 20).map(t => (
+                    <div key={`${t.from}:${t.to}`} className="flex justify-between font-mono">
+                      <span className="text-slate-400">{t.from} → {t.to}</span>
+                      <span className="text-slate-200">{t.population.toLocaleString()} <span className="text-slate-500">({t.precincts})</span></span>
+                    </div>
+                  ))}
+                  {diff.transfers.length > 20 && (
+                    <div className="text-[10px] text-slate-500">+{diff.transfers.length - 20} more</div>
+                  )}
+                </div>
+              )}
+
+              {diff.districtDeltas.length > 0 && (
+                <div className="pt-2 border-t border-slate-800">
+                  <h3 className="text-[10px] font-bold text-slate-500 uppercase mb-1">District Changes (B - A)</h3>
+                  <div className="grid grid-cols-4 gap-x-2 text-[10px] text-slate-500 uppercase">
+                    <span>District</span><span className="text-right">Pop</span><span className="text-right">Dem</span><span className="text-right">Rep</span>
+                  </div>
+                  {diff.districtDeltas.map(d => (
+                    <div
+                      key={d.districtId}
+                      className="grid grid-cols-4 gap-x-2 font-mono"
+                      title={`White ${signed(d.white)} · Black ${signed(d.black)} · Hispanic ${signed(d.hispanic)}`}
+                    >
+                      <span className="text-blue-400">{d.districtId}</span>
+                      <span className="text-right text-slate-200">{signed(d.population)}</span>
+                      <span className="text-right text-blue-300">{signed(d.demVotes)}</span>
+                      <span className="text-right text-red-300">{signed(d.repVotes)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,22 @@
 import React, { useState } from 'react';
 import type { Constraint } from '../core/types';
+import type { OpportunityGoal } from '../core/vra';
+import { TREND_MODELS } from '../core/forecast';
+import type { ProjectionOptions, TrendModel } from '../core/forecast';
+import { STATE_APPORTIONMENT } from '../core/Apportionment';
 
 interface ConstraintsPanelProps {
   constraints: Constraint[];
   onConstraintsChange: (constraints: Constraint[]) => void;
+  opportunityGoals: OpportunityGoal[];
+  onOpportunityGoalsChange: (goals: OpportunityGoal[]) => void;
+  projection: ProjectionOptions;
+  onProjectionChange: (projection: ProjectionOptions) => void;
 }
 
-export const ConstraintsPanel: React.FC<ConstraintsPanelProps> = ({ constraints, onConstraintsChange }) => {
+const stateOptions = Object.entries(STATE_APPORTIONMENT).sort((a, b) => a[1].name.localeCompare(b[1].name));
+
+export const ConstraintsPanel: React.FC<ConstraintsPanelProps> = ({ constraints, onConstraintsChange, opportunityGoals, onOpportunityGoalsChange, projection, onProjectionChange }) => {
   const [isOpen, setIsOpen] = useState(true);
 
   const addConstraint = () => {
@@ -29,6 +39,19 @@ export const ConstraintsPanel: React.FC<ConstraintsPanelProps> = ({ constraints,
     onConstraintsChange(constraints.map(c => c.id === id ? { ...c, ...updates } : c));
   };
 
+  const metricTypeOf = (c: Constraint) => c.metricType || 'value';
+
+  const addOpportunityGoal = () => {
+    const used = new Set(opportunityGoals.map(g => g.stateId));
+    const next = stateOptions.find(([id]) => !used.has(Number(id)));
+    if (!next) return;
+    onOpportunityGoalsChange([...opportunityGoals, { stateId: Number(next[0]), minDistricts: 1 }]);
+  };
+
+  const updateOpportunityGoal = (index: number, updates: Partial<OpportunityGoal>) => {
+    onOpportunityGoalsChange(opportunityGoals.map((g, i) => i === index ? { ...g, ...updates } : g));
+  };
+
   return (
     <div className="absolute top-4 right-4 bg-slate-900/90 backdrop-blur-md border border-slate-700 rounded-lg p-4 w-96 shadow-xl z-20">
       <div className="flex justify-between items-center mb-4 cursor-pointer" onClick={() => setIsOpen(!isOpen)}>
@@ -47,15 +70,25 @@ export const ConstraintsPanel: React.FC<ConstraintsPanelProps> = ({ constraints,
                 <div className="flex gap-2 items-center">
                   <select 
                     value={c.metricType || 'value'}
-                    onChange={(e) => updateConstraint(c.id, { metricType: e.target.value as 'value' | 'growth' })}
+                    onChange={(e) => {
+                      const metricType = e.target.value as NonNullable<Constraint['metricType']>;
+                      // Only raw counts (and margin, when projected) have growth/projection series
+                      const keepsMetric = ['population', 'demVotes', 'repVotes', 'white', 'black', 'hispanic'].includes(c.metric) || (metricType !== 'growth' && c.metric === 'margin');
+                      updateConstraint(c.id, keepsMetric ? { metricType } : { metricType, metric: 'population' });
+                    }}
                     className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300 w-20 text-xs"
                   >
                     <option value="value">Value</option>
                     <option value="growth">Growth</option>
+                    <option value="projected">Projected</option>
                   </select>
                   <select 
                     value={c.metric}
-                    onChange={(e) => updateConstraint(c.id, { metric: e.target.value as Constraint['metric'] })}
+                    onChange={(e) => {
+                      const metric = e.target.value as Constraint['metric'];
+                      // Competitive districts: default to a 0-5 point margin band
+                      updateConstraint(c.id, metric === 'margin' ? { metric, operator: 'between', value: 0, maxValue: 5 } : { metric });
+                    }}
                     className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300 flex-1"
                   >
                     <option value="population">Population</option>
@@ -64,12 +97,15 @@ export const ConstraintsPanel: React.FC<ConstraintsPanelProps> = ({ constraints,
                     <option value="white">White</option>
                     <option value="black">Black</option>
                     <option value="hispanic">Hispanic</option>
-                    {(!c.metricType || c.metricType === 'value') && (
+                    {metricTypeOf(c) === 'value' && (
                       <>
                         <option value="education">BA+ %</option>
                         <option value="income">Income</option>
+                        <option value="compactness">Compactness (PP)</option>
+                        <option value="countySplits">Split Counties</option>
                       </>
                     )}
+                    {metricTypeOf(c) !== 'growth' && <option value="margin">Margin (pts)</option>}
                   </select>
                   <select 
                     value={c.operator}
@@ -121,7 +157,7 @@ export const ConstraintsPanel: React.FC<ConstraintsPanelProps> = ({ constraints,
                 {/* Natural Language Sentence */}
                 <div className="text-[10px] text-slate-500 italic border-t border-slate-700/50 pt-1 mt-1">
                   In <strong className="text-purple-400">{c.targetPercent}%</strong> of districts, 
-                  <strong className="text-blue-400"> {c.metricType === 'growth' ? `${c.metric} growth` : c.metric}</strong> should be 
+                  <strong className="text-blue-400"> {c.metricType === 'growth' ? `${c.metric} growth` : c.metricType === 'projected' ? `${projection.year} ${c.metric}` : c.metric}</strong> should be 
                   <strong className="text-emerald-400"> {c.operator === 'between' ? `between ${c.value} and ${c.maxValue || c.value}` : `${c.operator} ${c.value}`}</strong>
                   {c.metricType === 'growth' && <span className="text-slate-500"> (avg YoY %)</span>}
                 </div>
@@ -129,12 +165,75 @@ export const ConstraintsPanel: React.FC<ConstraintsPanelProps> = ({ constraints,
             ))}
           </div>
           
+          {constraints.some(c => c.metricType === 'projected') && (
+            <div className="bg-slate-800/50 p-2 rounded border border-slate-700 text-xs flex gap-2 items-center">
+              <span className="text-slate-400">Project to</span>
+              <input 
+                type="number" 
+                min="2021" 
+                max="2100"
+                value={projection.year}
+                onChange={(e) => onProjectionChange({ ...projection, year: parseInt(e.target.value) || projection.year })}
+                className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300 w-16"
+              />
+              <span className="text-slate-400">with</span>
+              <select 
+                value={projection.model}
+                onChange={(e) => onProjectionChange({ ...projection, model: e.target.value as TrendModel })}
+                className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300 flex-1"
+              >
+                {TREND_MODELS.map(m => (
+                  <option key={m.id} value={m.id}>{m.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <button 
             onClick={addConstraint}
             className="w-full py-1.5 bg-purple-600 hover:bg-purple-500 text-white text-xs font-bold rounded transition-colors"
           >
             + Add Constraint
           </button>
+
+          <div className="pt-3 border-t border-slate-700/50 space-y-2">
+            <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">VRA Opportunity Goals</h3>
+            {opportunityGoals.map((g, i) => (
+              <div key={g.stateId} className="bg-slate-800/50 p-2 rounded border border-slate-700 text-xs flex gap-2 items-center">
+                <span className="text-slate-400">At least</span>
+                <input 
+                  type="number" 
+                  min="1" 
+                  max={STATE_APPORTIONMENT[g.stateId]?.districts}
+                  value={g.minDistricts}
+                  onChange={(e) => updateOpportunityGoal(i, { minDistricts: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300 w-12"
+                />
+                <span className="text-slate-400">in</span>
+                <select 
+                  value={g.stateId}
+                  onChange={(e) => updateOpportunityGoal(i, { stateId: Number(e.target.value) })}
+                  className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300 flex-1"
+                >
+                  {stateOptions.map(([id, s]) => (
+                    <option key={id} value={id} disabled={Number(id) !== g.stateId && opportunityGoals.some(o => o.stateId === Number(id))}>{s.name}</option>
+                  ))}
+                </select>
+                <button 
+                  onClick={() => onOpportunityGoalsChange(opportunityGoals.filter((_, j) => j !== i))}
+                  className="text-red-400 hover:text-red-300 px-2"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <button 
+              onClick={addOpportunityGoal}
+              className="w-full py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-200 text-xs font-bold rounded border border-slate-700 transition-colors"
+            >
+              + Add VRA Goal
+            </button>
+          </div>
         </div>
       )}
     </div>
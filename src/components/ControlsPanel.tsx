@@ -1,27 +1,54 @@
-import React, { useState } from 'react';
-
+import React, { useEffect, useState } from 'react';
+import type { AnnealingSchedule, RedistrictOptions } from '../core/types';
+import { DEFAULT_ANNEALING_SCHEDULE } from '../core/algorithms';
 
 interface ControlsPanelProps {
   onGenerateBorders: () => void;
   viewMode: 'district' | 'political';
   onSetViewMode: (mode: 'district' | 'political') => void;
-  onAutoRedistrict: (config: { runs: number; isAuto: boolean }) => Promise<void>;
+  highlightOpportunity: boolean;
+  onHighlightOpportunityChange: (highlight: boolean) => void;
+  onAutoRedistrict: (config: RedistrictOptions) => Promise<void>;
   isRedistricting: boolean;
+  initialSettings?: RedistrictOptions; // e.g. from a loaded plan; remount with a new key to apply
+  onSettingsChange?: (settings: RedistrictOptions) => void;
 }
 
 export const ControlsPanel: React.FC<ControlsPanelProps> = ({ 
   onGenerateBorders, 
   viewMode, 
   onSetViewMode,
+  highlightOpportunity,
+  onHighlightOpportunityChange,
   onAutoRedistrict,
-  isRedistricting
+  isRedistricting,
+  initialSettings,
+  onSettingsChange
 }) => {
-  const [runs, setRuns] = useState(1);
-  const [isAuto, setIsAuto] = useState(false);
+  const [runs, setRuns] = useState(initialSettings?.runs ?? 1);
+  const [isAuto, setIsAuto] = useState(initialSettings?.isAuto ?? false);
+  const [contiguous, setContiguous] = useState(initialSettings?.contiguous ?? false);
+  const [seed, setSeed] = useState(initialSettings?.seed?.toString() ?? '');
+  const [schedule, setSchedule] = useState<AnnealingSchedule>(initialSettings?.schedule ?? DEFAULT_ANNEALING_SCHEDULE);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [countySplitWeight, setCountySplitWeight] = useState(initialSettings?.countySplitWeight ?? 0);
+  const [retentionWeight, setRetentionWeight] = useState(initialSettings?.retentionWeight ?? 0);
+
+  const parsedSeed = parseInt(seed, 10);
+  const settingsSeed = isNaN(parsedSeed) ? undefined : parsedSeed;
+
+  // Keeps the parent's copy current for saved plans
+  useEffect(() => {
+    onSettingsChange?.({ runs, isAuto, contiguous, seed: settingsSeed, schedule, countySplitWeight, retentionWeight });
+  }, [onSettingsChange, runs, isAuto, contiguous, settingsSeed, schedule, countySplitWeight, retentionWeight]);
+
+  const updateSchedule = (updates: Partial<AnnealingSchedule>) => {
+    setSchedule(prev => ({ ...prev, ...updates }));
+  };
 
   const handleRedistrictClick = async () => {
     try {
-      await onAutoRedistrict({ runs, isAuto });
+      await onAutoRedistrict({ runs, isAuto, contiguous, seed: settingsSeed, schedule, countySplitWeight, retentionWeight });
     } catch (e) {
       console.error(e);
     }
@@ -54,6 +81,16 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
         </button>
       </div>
 
+      <label className="flex items-center justify-between bg-slate-800/50 p-2 rounded border border-slate-700 mb-4 cursor-pointer">
+        <span className="text-xs text-slate-300">Highlight VRA Districts</span>
+        <input 
+          type="checkbox" 
+          checked={highlightOpportunity} 
+          onChange={(e) => onHighlightOpportunityChange(e.target.checked)}
+          className="w-3 h-3 rounded border-slate-600 text-blue-600 focus:ring-0 focus:ring-offset-0 bg-slate-900"
+        />
+      </label>
+
       <h2 className="text-xs font-bold text-slate-400 mb-4 uppercase tracking-widest">Algorithms</h2>
       
       <div className="space-y-3">
@@ -81,6 +118,142 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
           />
         </div>
 
+        <label
+          className="flex items-center justify-between bg-slate-800/50 p-2 rounded border border-slate-700 mb-2 cursor-pointer"
+          title="Only move boundary precincts into neighbouring districts, never disconnecting a district. Unchecked, plans may be non-contiguous."
+        >
+          <span className="text-xs text-slate-300">
+            Preserve Contiguity
+            {!contiguous && <span className="block text-[10px] text-slate-500">Off: plans may be non-contiguous</span>}
+          </span>
+          <input 
+            type="checkbox" 
+            checked={contiguous} 
+            onChange={(e) => setContiguous(e.target.checked)}
+            className="w-3 h-3 rounded border-slate-600 text-blue-600 focus:ring-0 focus:ring-offset-0 bg-slate-900"
+          />
+        </label>
+
+        <div className="flex items-center justify-between bg-slate-800/50 p-2 rounded border border-slate-700 mb-2">
+          <span className="text-xs text-slate-300">Seed</span>
+          <input 
+            type="number" 
+            value={seed} 
+            placeholder="Random"
+            onChange={(e) => setSeed(e.target.value)}
+            className="w-20 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-right text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+          />
+        </div>
+
+        <div className="flex items-center justify-between bg-slate-800/50 p-2 rounded border border-slate-700 mb-2">
+          <span className="text-xs text-slate-300" title="Annealing cost added per county split">County Split Penalty</span>
+          <input 
+            type="number" 
+            min="0" 
+            step="0.1" 
+            value={countySplitWeight} 
+            onChange={(e) => setCountySplitWeight(Math.max(0, Number(e.target.value) || 0))}
+            className="w-16 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-right text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+          />
+        </div>
+
+        <div className="flex items-center justify-between bg-slate-800/50 p-2 rounded border border-slate-700 mb-2">
+          <span className="text-xs text-slate-300" title="Annealing cost per share of population moved out of the baseline plan's district cores">Core Retention Penalty</span>
+          <input 
+            type="number" 
+            min="0" 
+            step="0.1" 
+            value={retentionWeight} 
+            onChange={(e) => setRetentionWeight(Math.max(0, Number(e.target.value) || 0))}
+            className="w-16 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-right text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+          />
+        </div>
+
+        <div className="bg-slate-800/50 p-2 rounded border border-slate-700 mb-2">
+          <div className="flex items-center justify-between cursor-pointer" onClick={() => setShowSchedule(!showSchedule)}>
+            <span className="text-xs text-slate-300">Annealing Schedule</span>
+            <span className="text-slate-400 text-[10px]">{showSchedule ? '▼' : '▶'}</span>
+          </div>
+          {showSchedule && (
+            <div className="grid grid-cols-2 gap-2 mt-2 text-[10px] text-slate-400">
+              <label className="col-span-2 flex items-center justify-between">
+                <span>Type</span>
+                <select 
+                  value={schedule.type}
+                  onChange={(e) => updateSchedule({ type: e.target.value as AnnealingSchedule['type'] })}
+                  className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300 text-xs"
+                >
+                  <option value="geometric">Geometric</option>
+                  <option value="linear">Linear</option>
+                  <option value="adaptive">Adaptive (reheat)</option>
+                </select>
+              </label>
+              <label className="flex flex-col gap-0.5">
+                <span>Iterations</span>
+                <input 
+                  type="number" 
+                  min="1" 
+                  value={schedule.iterations}
+                  onChange={(e) => updateSchedule({ iterations: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-right text-xs text-slate-200"
+                />
+              </label>
+              <label className="flex flex-col gap-0.5">
+                <span>Start Temp</span>
+                <input 
+                  type="number" 
+                  step="0.1" 
+                  min="0" 
+                  value={schedule.initialTemperature}
+                  onChange={(e) => updateSchedule({ initialTemperature: Math.max(0, Number(e.target.value)) })}
+                  className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-right text-xs text-slate-200"
+                />
+              </label>
+              {schedule.type === 'linear' ? (
+                <label className="flex flex-col gap-0.5">
+                  <span>End Temp</span>
+                  <input 
+                    type="number" 
+                    step="0.001" 
+                    min="0" 
+                    value={schedule.finalTemperature ?? 0.001}
+                    onChange={(e) => updateSchedule({ finalTemperature: Math.max(0, Number(e.target.value)) })}
+                    className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-right text-xs text-slate-200"
+                  />
+                </label>
+              ) : (
+                <label className="flex flex-col gap-0.5">
+                  <span>Cooling Rate</span>
+                  <input 
+                    type="number" 
+                    step="0.001" 
+                    min="0" 
+                    max="1" 
+                    value={schedule.coolingRate}
+                    onChange={(e) => updateSchedule({ coolingRate: Math.max(0, Math.min(1, Number(e.target.value))) })}
+                    className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-right text-xs text-slate-200"
+                  />
+                </label>
+              )}
+              {schedule.type === 'adaptive' && (
+                <label className="flex flex-col gap-0.5">
+                  <span>Reheat Below</span>
+                  <input 
+                    type="number" 
+                    step="0.01" 
+                    min="0" 
+                    max="1" 
+                    value={schedule.reheatThreshold ?? 0.02}
+                    onChange={(e) => updateSchedule({ reheatThreshold: Math.max(0, Math.min(1, Number(e.target.value))) })}
+                    className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-right text-xs text-slate-200"
+                    title="Acceptance rate that triggers a reheat"
+                  />
+                </label>
+              )}
+            </div>
+          )}
+        </div>
+
         <button
           onClick={() => !isRedistricting && handleRedistrictClick()}
           className={`group relative w-full px-4 py-3 bg-purple-600/20 hover:bg-purple-600/30 border border-purple-500/30 hover:border-purple-500/50 text-purple-100 rounded-lg transition-all overflow-hidden ${isRedistricting ? 'opacity-50 cursor-not-allowed' : ''}`}
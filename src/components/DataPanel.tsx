@@ -0,0 +1,151 @@
+import React, { useRef, useState } from 'react';
+import { DEFAULT_PRECINCT_MAPPING, RATE_COLUMNS, STAT_COLUMNS, detectRateScale, propertyNames, toFeatureCollection } from '../core/precinctImport';
+import type { PrecinctPropertyMapping, StatColumn } from '../core/precinctImport';
+import type { FeatureCollection } from 'geojson';
+
+interface DataPanelProps {
+  onLoad: (data: unknown, name: string, mapping: PrecinctPropertyMapping) => Promise<{ loaded: number, skipped: number } | null>;
+}
+
+type MappedField = Exclude<keyof PrecinctPropertyMapping, 'scale'>;
+
+const FIELD_LABELS: Record<MappedField, string> = {
+  id: 'Precinct ID / GEOID',
+  stateId: 'State FIPS',
+  countyId: 'County FIPS',
+  population: 'Population',
+  demVotes: 'Dem Votes',
+  repVotes: 'Rep Votes',
+  white: 'White',
+  black: 'Black',
+  hispanic: 'Hispanic',
+  education: 'Education %',
+  income: 'Median Income'
+};
+
+const FIELDS = ['id', 'stateId', 'countyId', ...STAT_COLUMNS] as MappedField[];
+
+const isRateColumn = (field: string): field is StatColumn => RATE_COLUMNS.includes(field as StatColumn);
+
+// Re-detects whether each mapped rate column holds fractions or percentages
+const withDetectedScales = (mapping: PrecinctPropertyMapping, collection: FeatureCollection): PrecinctPropertyMapping => ({
+  ...mapping,
+  scale: Object.fromEntries(RATE_COLUMNS.map(column => [column, mapping[column] ? detectRateScale(collection, mapping[column]) : 1]))
+});
+
+export const DataPanel: React.FC<DataPanelProps> = ({ onLoad }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [file, setFile] = useState<{ name: string, data: unknown, collection: FeatureCollection, properties: string[] } | null>(null);
+  const [mapping, setMapping] = useState<PrecinctPropertyMapping>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [status, setStatus] = useState<{ message: string, error?: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+    try {
+      const data = JSON.parse(await selected.text());
+      const collection = toFeatureCollection(data);
+      const properties = propertyNames(collection);
+      // Start from the defaults that exist in this file
+      setMapping(withDetectedScales(Object.fromEntries(
+        Object.entries(DEFAULT_PRECINCT_MAPPING).filter(([, name]) => name && properties.includes(name))
+      ), collection));
+      setFile({ name: selected.name, data, collection, properties });
+      setStatus(null);
+    } catch (err) {
+      setFile(null);
+      setStatus({ message: `Could not read ${selected.name}: ${(err as Error).message}`, error: true });
+    }
+  };
+
+  const handleLoad = async () => {
+    if (!file) return;
+    setIsLoading(true);
+    try {
+      const result = await onLoad(file.data, file.name, mapping);
+      if (!result) return;
+      setStatus({ message: `Loaded ${result.loaded.toLocaleString()} precincts${result.skipped > 0 ? `, skipped ${result.skipped.toLocaleString()} without a known state or geometry` : ''}` });
+    } catch (err) {
+      setStatus({ message: `Load failed: ${(err as Error).message}`, error: true });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="absolute top-24 left-[54rem] bg-slate-900/80 backdrop-blur-xl rounded-xl border border-slate-700/50 shadow-2xl p-5 w-80 transition-all duration-300 hover:bg-slate-900/90 max-h-[60vh] overflow-y-auto">
+      <div className="flex justify-between items-center cursor-pointer" onClick={() => setIsOpen(!isOpen)}>
+        <h2 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Precinct Data</h2>
+        <span className="text-slate-400 text-xs">{isOpen ? '▼' : '▶'}</span>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-3 text-xs">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading}
+            className="w-full py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded border border-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Choose GeoJSON / TopoJSON
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json,.geojson,.topojson" onChange={handleFile} className="hidden" />
+
+          {file && (
+            <>
+              <div className="flex justify-between text-slate-300">
+                <span className="truncate" title={file.name}>{file.name}</span>
+                <span className="font-mono text-slate-500">{file.collection.features.length.toLocaleString()} features</span>
+              </div>
+
+              <div className="space-y-1 bg-slate-800/50 p-2 rounded border border-slate-700">
+                {FIELDS.map(field => (
+                  <label key={field} className="flex items-center justify-between gap-2">
+                    <span className="text-slate-400">{FIELD_LABELS[field]}</span>
+                    <span className="flex gap-1">
+                      <select
+                        value={mapping[field] ?? ''}
+                        onChange={(e) => setMapping(prev => withDetectedScales({ ...prev, [field]: e.target.value || undefined }, file.collection))}
+                        className={`${isRateColumn(field) ? 'w-20' : 'w-36'} bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300`}
+                      >
+                        <option value="">{field === 'stateId' ? 'From ID prefix' : '—'}</option>
+                        {file.properties.map(name => (
+                          <option key={name} value={name}>{name}</option>
+                        ))}
+                      </select>
+                      {isRateColumn(field) && (
+                        <select
+                          value={mapping.scale?.[field] ?? 1}
+                          onChange={(e) => setMapping(prev => ({ ...prev, scale: { ...prev.scale, [field]: Number(e.target.value) } }))}
+                          title="How the column stores the rate"
+                          className="w-16 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300"
+                        >
+                          <option value={1}>0–100</option>
+                          <option value={100}>0–1</option>
+                        </select>
+                      )}
+                    </span>
+                  </label>
+                ))}
+              </div>
+
+              <button
+                onClick={handleLoad}
+                disabled={isLoading}
+                className="w-full py-1.5 bg-blue-600 hover:bg-blue-500 text-white font-bold rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? 'Loading…' : 'Replace Precincts'}
+              </button>
+            </>
+          )}
+
+          {status && (
+            <div className={status.error ? 'text-red-400' : 'text-slate-400'}>{status.message}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -3,7 +3,11 @@ import { MapEngine } from '../core/MapEngine';
 import { DataStore } from '../core/DataStore';
 import type { PrecinctData } from '../core/DataStore';
 
-import type { Constraint } from '../core/types';
+import type { AnalysisOptions, Constraint, RedistrictOptions } from '../core/types';
+import type { ParetoFront, ParetoOptions } from '../core/pareto';
+import type { PlanDocument } from '../core/planDocument';
+import type { PrecinctPropertyMapping } from '../core/precinctImport';
+import type { DistrictExportFormat } from '../core/districtExport';
 
 interface MapCanvasProps {
   dataStore: DataStore;
@@ -15,8 +19,20 @@ export interface MapCanvasHandle {
   render: () => void;
   generateBorders: () => void;
   setViewMode: (mode: 'district' | 'political') => void;
-  loadInitialData: () => Promise<void>;
-  startAutoRedistrict: (constraints?: Constraint[], config?: { runs: number; isAuto: boolean }) => Promise<void>;
+  setHighlightedDistricts: (districtIds: number[]) => void;
+  setChangedPrecincts: (precinctIds: number[]) => void;
+  loadInitialData: (seed?: number) => Promise<void>;
+  loadPrecinctFile: (data: unknown, name: string, mapping: PrecinctPropertyMapping) => Promise<{ loaded: number, skipped: number } | null>;
+  startAutoRedistrict: (constraints?: Constraint[], config?: RedistrictOptions) => Promise<void>;
+  exploreParetoFront: (constraints?: Constraint[], config?: ParetoOptions) => Promise<ParetoFront[]>;
+  applyAssignment: (updates: { id: number, districtId: number }[]) => Promise<void>;
+  setBaseline: (assignment: Map<number, number> | null) => Promise<void>;
+  setCommunityPrecincts: (precinctIds: number[]) => void;
+  startPolygonDrawing: (onComplete: (ring: number[]) => void) => void;
+  cancelPolygonDrawing: () => void;
+  savePlan: (parts: { name: string, constraints: Constraint[], settings: RedistrictOptions }) => Promise<PlanDocument | null>;
+  loadPlan: (input: unknown) => Promise<{ plan: PlanDocument, warnings: string[] } | null>;
+  exportDistricts: (format: DistrictExportFormat, name?: string, analysisOptions?: AnalysisOptions) => Promise<string | null>;
 }
 
 export const MapCanvas = forwardRef<MapCanvasHandle, MapCanvasProps>(({ dataStore, updateTrigger, onPrecinctSelect }, ref) => {
@@ -27,8 +43,20 @@ export const MapCanvas = forwardRef<MapCanvasHandle, MapCanvasProps>(({ dataStor
     render: () => engineRef.current?.render(),
     generateBorders: () => engineRef.current?.generateBorders(),
     setViewMode: (mode) => engineRef.current?.setViewMode(mode),
-    loadInitialData: async () => engineRef.current?.loadInitialData(),
-    startAutoRedistrict: (constraints, config) => engineRef.current?.startAutoRedistrict(constraints, config) || Promise.resolve()
+    setHighlightedDistricts: (districtIds) => engineRef.current?.setHighlightedDistricts(districtIds),
+    setChangedPrecincts: (precinctIds) => engineRef.current?.setChangedPrecincts(precinctIds),
+    loadInitialData: async (seed) => engineRef.current?.loadInitialData(seed),
+    loadPrecinctFile: (data, name, mapping) => engineRef.current?.loadPrecinctFile(data, name, mapping) || Promise.resolve(null),
+    startAutoRedistrict: (constraints, config) => engineRef.current?.startAutoRedistrict(constraints, config) || Promise.resolve(),
+    exploreParetoFront: (constraints, config) => engineRef.current?.exploreParetoFront(constraints, config) || Promise.resolve([]),
+    applyAssignment: (updates) => engineRef.current?.applyAssignment(updates) || Promise.resolve(),
+    setBaseline: (assignment) => engineRef.current?.setBaseline(assignment) || Promise.resolve(),
+    setCommunityPrecincts: (precinctIds) => engineRef.current?.setCommunityPrecincts(precinctIds),
+    startPolygonDrawing: (onComplete) => engineRef.current?.startPolygonDrawing(onComplete),
+    cancelPolygonDrawing: () => engineRef.current?.cancelPolygonDrawing(),
+    savePlan: (parts) => engineRef.current?.savePlan(parts) || Promise.resolve(null),
+    loadPlan: (input) => engineRef.current?.loadPlan(input) || Promise.resolve(null),
+    exportDistricts: (format, name, analysisOptions) => engineRef.current?.exportDistricts(format, name, analysisOptions) || Promise.resolve(null)
   }));
 
   useEffect(() => {
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { workerManager } from '../core/WorkerManager';
+import type { BoxStats, MetricPlacement, OutlierReport } from '../core/outliers';
+import { STATE_APPORTIONMENT } from '../core/Apportionment';
+
+const stateOptions = Object.entries(STATE_APPORTIONMENT)
+  .filter(([, s]) => s.districts > 1)
+  .sort((a, b) => a[1].name.localeCompare(b[1].name));
+
+// Horizontal box plot over [lo, hi] with the plan under test marked
+const BoxPlot: React.FC<{ box: BoxStats; value: number; lo: number; hi: number; width?: number }> = ({ box, value, lo, hi, width = 140 }) => {
+  const span = hi - lo || 1;
+  const x = (v: number) => 2 + ((v - lo) / span) * (width - 4);
+  return (
+    <svg width={width} height={14} className="block">
+      <line x1={x(box.min)} x2={x(box.max)} y1={7} y2={7} className="stroke-slate-500" />
+      <rect x={x(box.q1)} y={2} width={Math.max(1, x(box.q3) - x(box.q1))} height={10} className="fill-slate-700 stroke-slate-500" />
+      <line x1={x(box.median)} x2={x(box.median)} y1={2} y2={12} className="stroke-slate-200" />
+      <circle cx={x(value)} cy={7} r={3} className="fill-amber-400" />
+    </svg>
+  );
+};
+
+const metricRange = (m: MetricPlacement) => ({ lo: Math.min(m.box.min, m.value), hi: Math.max(m.box.max, m.value) });
+
+export const OutlierPanel: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [stateId, setStateId] = useState(Number(stateOptions[0][0]));
+  const [samples, setSamples] = useState(500);
+  const [report, setReport] = useState<OutlierReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      const result = await workerManager.sendMessage('ENSEMBLE_OUTLIER', { stateId, samples });
+      setReport(result as OutlierReport);
+    } catch (e) {
+      console.error("Outlier analysis failed:", e);
+      setReport(null);
+      setError(`Ensemble could not be generated: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const rows: [string, MetricPlacement, (v: number) => string][] = report ? [
+    ['Efficiency Gap', report.efficiencyGap, v => v.toFixed(3)],
+    ['Dem Seats', report.demSeats, v => v.toFixed(0)],
+    ['Mean Polsby-Popper', report.meanPolsbyPopper, v => v.toFixed(3)]
+  ] : [];
+
+  return (
+    <div className="absolute top-24 left-56 bg-slate-900/80 backdrop-blur-xl rounded-xl border border-slate-700/50 shadow-2xl p-5 w-80 transition-all duration-300 hover:bg-slate-900/90 max-h-[70vh] overflow-y-auto">
+      <div className="flex justify-between items-center cursor-pointer" onClick={() => setIsOpen(!isOpen)}>
+        <h2 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Outlier Analysis</h2>
+        <span className="text-slate-400 text-xs">{isOpen ? '▼' : '▶'}</span>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-3">
+          <div className="flex gap-2">
+            <select
+              value={stateId}
+              onChange={(e) => setStateId(Number(e.target.value))}
+              className="flex-1 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-slate-300"
+            >
+              {stateOptions.map(([id, s]) => (
+                <option key={id} value={id}>{s.name}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="10"
+              max="5000"
+              value={samples}
+              title="Ensemble size"
+              onChange={(e) => setSamples(Math.max(10, Math.min(5000, parseInt(e.target.value) || 10)))}
+              className="w-16 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-right text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+            />
+          </div>
+
+          <button
+            onClick={handleRun}
+            disabled={isRunning}
+            className="w-full py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 text-xs font-medium rounded-lg border border-slate-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isRunning ? 'Sampling...' : 'Run Ensemble'}
+          </button>
+
+          {error && (
+            <div className="text-xs text-red-400">{error}</div>
+          )}
+
+          {report && (
+            <>
+              <div className="text-[10px] text-slate-500">
+                Current plan vs {report.ensembleSize} ReCom plans · <span className="text-amber-400">●</span> current
+              </div>
+
+              {rows.map(([label, m, format]) => {
+                const { lo, hi } = metricRange(m);
+                return (
+                  <div key={label} className="text-xs">
+                    <div className="flex justify-between mb-1">
+                      <span className="text-slate-400">{label}</span>
+                      <span className="font-mono text-slate-200">
+                        {format(m.value)} <span className={m.percentile < 5 || m.percentile > 95 ? 'text-red-400' : 'text-slate-500'}>({m.percentile.toFixed(0)}th pct)</span>
+                      </span>
+                    </div>
+                    <BoxPlot box={m.box} value={m.value} lo={lo} hi={hi} width={272} />
+                  </div>
+                );
+              })}
+
+              <div className="pt-2 border-t border-slate-800">
+                <div className="text-[10px] text-slate-500 uppercase tracking-wider mb-2">Sorted District Dem Share</div>
+                {(() => {
+                  const lo = Math.min(...report.marginals.map(m => metricRange(m).lo));
+                  const hi = Math.max(...report.marginals.map(m => metricRange(m).hi));
+                  return report.marginals.map((m, rank) => (
+                    <div key={rank} className="flex items-center gap-2 text-[10px]">
+                      <span className="w-4 text-right text-slate-500">{rank + 1}</span>
+                      <BoxPlot box={m.box} value={m.value} lo={lo} hi={hi} width={180} />
+                      <span className={`font-mono ${m.percentile < 5 || m.percentile > 95 ? 'text-red-400' : 'text-slate-400'}`}>
+                        {(m.value * 100).toFixed(1)}% ({m.percentile.toFixed(0)})
+                      </span>
+                    </div>
+                  ));
+                })()}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { PARETO_OBJECTIVES } from '../core/pareto';
+import type { ParetoFront, ParetoObjective } from '../core/pareto';
+import { STATE_APPORTIONMENT } from '../core/Apportionment';
+
+interface ParetoPanelProps {
+  onExplore: (stateId: number, objectives: ParetoObjective[], runs: number) => Promise<ParetoFront[]>;
+  onApply: (updates: { id: number, districtId: number }[]) => Promise<void>;
+}
+
+const PLOT_SIZE = 200;
+const PLOT_PADDING = 16;
+
+const stateOptions = Object.entries(STATE_APPORTIONMENT)
+  .filter(([, s]) => s.districts > 1)
+  .sort((a, b) => a[1].name.localeCompare(b[1].name));
+
+export const ParetoPanel: React.FC<ParetoPanelProps> = ({ onExplore, onApply }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [stateId, setStateId] = useState(Number(stateOptions[0][0]));
+  const [objectives, setObjectives] = useState<ParetoObjective[]>(['populationDeviation', 'efficiencyGap', 'compactness']);
+  const [runs, setRuns] = useState(20);
+  const [front, setFront] = useState<ParetoFront | null>(null);
+  const [xAxis, setXAxis] = useState<ParetoObjective>('populationDeviation');
+  const [yAxis, setYAxis] = useState<ParetoObjective>('efficiencyGap');
+  const [selected, setSelected] = useState<number | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const toggleObjective = (id: ParetoObjective) => {
+    setObjectives(prev => prev.includes(id) ? prev.filter(o => o !== id) : [...prev, id]);
+  };
+
+  const handleExplore = async () => {
+    setIsRunning(true);
+    try {
+      const fronts = await onExplore(stateId, objectives, runs);
+      setFront(fronts.find(f => f.stateId === stateId) ?? null);
+      setSelected(null);
+      if (objectives.length >= 2) {
+        setXAxis(objectives[0]);
+        setYAxis(objectives[1]);
+      }
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!front || selected === null) return;
+    const plan = front.plans[selected];
+    await onApply(front.precinctIds.map((id, j) => ({ id, districtId: front.stateId * 100 + plan.assignment[j] })));
+  };
+
+  const plans = front?.plans ?? [];
+  const range = (o: ParetoObjective) => {
+    const values = plans.map(p => p.scores[o]);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    return { min, span: max - min || 1 };
+  };
+  const xRange = range(xAxis);
+  const yRange = range(yAxis);
+  const toX = (v: number) => PLOT_PADDING + ((v - xRange.min) / xRange.span) * (PLOT_SIZE - 2 * PLOT_PADDING);
+  const toY = (v: number) => PLOT_SIZE - PLOT_PADDING - ((v - yRange.min) / yRange.span) * (PLOT_SIZE - 2 * PLOT_PADDING);
+
+  return (
+    <div className="absolute bottom-6 left-[20rem] bg-slate-900/80 backdrop-blur-xl rounded-xl border border-slate-700/50 shadow-2xl p-5 w-80 transition-all duration-300 hover:bg-slate-900/90">
+      <div className="flex justify-between items-center cursor-pointer" onClick={() => setIsOpen(!isOpen)}>
+        <h2 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Trade-offs</h2>
+        <span className="text-slate-400 text-xs">{isOpen ? '▼' : '▶'}</span>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-3">
+          <div className="flex items-center justify-between bg-slate-800/50 p-2 rounded border border-slate-700">
+            <span className="text-xs text-slate-300">State</span>
+            <select
+              value={stateId}
+              onChange={(e) => setStateId(Number(e.target.value))}
+              className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-slate-300"
+            >
+              {stateOptions.map(([id, s]) => (
+                <option key={id} value={id}>{s.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center justify-between bg-slate-800/50 p-2 rounded border border-slate-700">
+            <span className="text-xs text-slate-300">Runs</span>
+            <input
+              type="number"
+              min="1"
+              max="5000"
+              value={runs}
+              onChange={(e) => setRuns(Math.max(1, Math.min(5000, parseInt(e.target.value) || 1)))}
+              className="w-16 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-right text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+            />
+          </div>
+
+          <div className="bg-slate-800/50 p-2 rounded border border-slate-700 space-y-1">
+            {PARETO_OBJECTIVES.map(o => (
+              <label key={o.id} className="flex items-center justify-between cursor-pointer">
+                <span className="text-xs text-slate-300">{o.label}</span>
+                <input
+                  type="checkbox"
+                  checked={objectives.includes(o.id)}
+                  onChange={() => toggleObjective(o.id)}
+                  className="w-3 h-3 rounded border-slate-600 text-blue-600 focus:ring-0 focus:ring-offset-0 bg-slate-900"
+                />
+              </label>
+            ))}
+          </div>
+
+          <button
+            onClick={handleExplore}
+            disabled={isRunning || objectives.length < 2}
+            className="w-full py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 text-xs font-medium rounded-lg border border-slate-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isRunning ? 'Exploring...' : 'Explore Front'}
+          </button>
+
+          {front && (
+            <>
+              <div className="flex gap-2">
+                {[{ value: xAxis, set: setXAxis, label: 'X' }, { value: yAxis, set: setYAxis, label: 'Y' }].map(axis => (
+                  <select
+                    key={axis.label}
+                    value={axis.value}
+                    onChange={(e) => axis.set(e.target.value as ParetoObjective)}
+                    className="flex-1 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-300"
+                  >
+                    {PARETO_OBJECTIVES.map(o => (
+                      <option key={o.id} value={o.id}>{axis.label}: {o.label}</option>
+                    ))}
+                  </select>
+                ))}
+              </div>
+
+              <svg width={PLOT_SIZE} height={PLOT_SIZE} className="mx-auto block bg-slate-950/50 rounded border border-slate-800">
+                {plans.map((p, i) => (
+                  <circle
+                    key={i}
+                    cx={toX(p.scores[xAxis])}
+                    cy={toY(p.scores[yAxis])}
+                    r={selected === i ? 6 : 4}
+                    className={`cursor-pointer ${selected === i ? 'fill-purple-400' : 'fill-blue-500 hover:fill-blue-300'}`}
+                    onClick={() => setSelected(i)}
+                  >
+                    <title>{PARETO_OBJECTIVES.map(o => `${o.label}: ${p.scores[o.id].toFixed(3)}`).join('\n')}</title>
+                  </circle>
+                ))}
+              </svg>
+
+              <div className="flex justify-between text-[10px] text-slate-500">
+                <span>{plans.length} non-dominated plan{plans.length === 1 ? '' : 's'}</span>
+                <span>Lower is better</span>
+              </div>
+
+              <button
+                onClick={handleApply}
+                disabled={selected === null}
+                className="w-full py-2 bg-purple-600 hover:bg-purple-500 text-white text-xs font-medium rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Apply Selected Plan
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
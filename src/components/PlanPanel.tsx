@@ -0,0 +1,225 @@
+import React, { useRef, useState } from 'react';
+import type { DataStore } from '../core/DataStore';
+import { exportBlockAssignment, parseBlockAssignment, validateBlockAssignment } from '../core/blockAssignment';
+import type { BlockAssignmentReport } from '../core/blockAssignment';
+import type { PlanDocument } from '../core/planDocument';
+import { DISTRICT_EXPORT_FORMATS } from '../core/districtExport';
+import type { DistrictExportFormat } from '../core/districtExport';
+
+interface PlanPanelProps {
+  dataStore: DataStore;
+  onApply: (updates: { id: number, districtId: number }[]) => Promise<void>;
+  onSavePlan: (name: string) => Promise<PlanDocument | null>;
+  onLoadPlan: (input: unknown) => Promise<{ plan: PlanDocument, warnings: string[] } | null>;
+  onExportDistricts: (format: DistrictExportFormat, name: string) => Promise<string | null>;
+}
+
+const download = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Lists the first few entries of a report category
+const preview = (items: (string | number)[], limit = 8) =>
+  items.slice(0, limit).join(', ') + (items.length > limit ? ` … +${items.length - limit}` : '');
+
+const fileSafe = (name: string) => name.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'plan';
+
+export const PlanPanel: React.FC<PlanPanelProps> = ({ dataStore, onApply, onSavePlan, onLoadPlan, onExportDistricts }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [report, setReport] = useState<(BlockAssignmentReport & { filename: string }) | null>(null);
+  const [applied, setApplied] = useState(false);
+  const [planName, setPlanName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [planStatus, setPlanStatus] = useState<{ message: string, warnings: string[], error?: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const planInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSavePlan = async () => {
+    setIsBusy(true);
+    try {
+      const plan = await onSavePlan(planName.trim() || 'Untitled plan');
+      if (!plan) return;
+      download(`${fileSafe(plan.name)}.json`, JSON.stringify(plan), 'application/json');
+      setPlanStatus({ message: `Saved "${plan.name}" (v${plan.version})`, warnings: [] });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleLoadPlan = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsBusy(true);
+    try {
+      const loaded = await onLoadPlan(JSON.parse(await file.text()));
+      if (!loaded) return;
+      setPlanName(loaded.plan.name);
+      setPlanStatus({ message: `Loaded "${loaded.plan.name}" (${loaded.plan.assignment.length.toLocaleString()} precincts)`, warnings: loaded.warnings });
+    } catch (err) {
+      setPlanStatus({ message: `Could not load ${file.name}: ${(err as Error).message}`, warnings: [], error: true });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleExportDistricts = async (format: DistrictExportFormat) => {
+    setIsBusy(true);
+    try {
+      const name = planName.trim() || 'districts';
+      const content = await onExportDistricts(format, name);
+      if (content === null) return;
+      const { extension, mime } = DISTRICT_EXPORT_FORMATS[format];
+      download(`${fileSafe(name)}.${extension}`, content, mime);
+    } catch (err) {
+      setPlanStatus({ message: `District export failed: ${(err as Error).message}`, warnings: [], error: true });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleExport = () => {
+    download('block-assignment.csv', exportBlockAssignment(dataStore.getAllPrecincts()), 'text/csv');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+    const rows = parseBlockAssignment(await file.text());
+    setReport({ ...validateBlockAssignment(rows, dataStore.getAllPrecincts()), filename: file.name });
+    setApplied(false);
+  };
+
+  const handleApply = async () => {
+    if (!report) return;
+    await onApply(report.updates);
+    setApplied(true);
+  };
+
+  return (
+    <div className="absolute top-24 left-[35rem] bg-slate-900/80 backdrop-blur-xl rounded-xl border border-slate-700/50 shadow-2xl p-5 w-72 transition-all duration-300 hover:bg-slate-900/90 max-h-[60vh] overflow-y-auto">
+      <div className="flex justify-between items-center cursor-pointer" onClick={() => setIsOpen(!isOpen)}>
+        <h2 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Plan Files</h2>
+        <span className="text-slate-400 text-xs">{isOpen ? '▼' : '▶'}</span>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-3 text-xs">
+          <div className="space-y-2">
+            <input
+              type="text"
+              value={planName}
+              placeholder="Plan name"
+              onChange={(e) => setPlanName(e.target.value)}
+              className="w-full bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300"
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={handleSavePlan}
+                disabled={isBusy}
+                className="flex-1 py-1.5 bg-blue-600 hover:bg-blue-500 text-white font-bold rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save Plan
+              </button>
+              <button
+                onClick={() => planInputRef.current?.click()}
+                disabled={isBusy}
+                className="flex-1 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded border border-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Load Plan
+              </button>
+              <input ref={planInputRef} type="file" accept=".json" onChange={handleLoadPlan} className="hidden" />
+            </div>
+            {planStatus && (
+              <div className={`space-y-1 ${planStatus.error ? 'text-red-400' : 'text-slate-400'}`}>
+                <div>{planStatus.message}</div>
+                {planStatus.warnings.map((warning, i) => (
+                  <div key={i} className="text-amber-400">⚠ {warning}</div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="pt-3 border-t border-slate-700/50 space-y-2">
+            <span className="text-slate-400">District Boundaries (lon/lat)</span>
+            <div className="flex gap-2">
+              {(Object.keys(DISTRICT_EXPORT_FORMATS) as DistrictExportFormat[]).map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleExportDistricts(format)}
+                  disabled={isBusy}
+                  className="flex-1 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded border border-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {DISTRICT_EXPORT_FORMATS[format].label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-2 pt-3 border-t border-slate-700/50">
+            <button
+              onClick={handleExport}
+              className="flex-1 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded border border-slate-700"
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex-1 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded border border-slate-700"
+            >
+              Import CSV
+            </button>
+            <input ref={fileInputRef} type="file" accept=".csv,.txt" onChange={handleFile} className="hidden" />
+          </div>
+
+          {report && (
+            <div className="space-y-2 bg-slate-800/50 p-2 rounded border border-slate-700">
+              <div className="flex justify-between text-slate-300">
+                <span className="truncate" title={report.filename}>{report.filename}</span>
+                <span className="font-mono text-emerald-400">{report.updates.length.toLocaleString()} valid</span>
+              </div>
+              {report.unknownIds.length > 0 && (
+                <div className="text-amber-400" title="IDs not in the loaded precinct data">
+                  {report.unknownIds.length.toLocaleString()} unknown IDs: <span className="font-mono">{preview(report.unknownIds)}</span>
+                </div>
+              )}
+              {report.overApportionment.length > 0 && (
+                <div className="text-red-400" title="District numbers above the state's apportioned seats">
+                  Over apportionment: <span className="font-mono">{preview(report.overApportionment.map(o => `${o.stateId}-${o.district} (${o.precincts})`))}</span>
+                </div>
+              )}
+              {report.invalidRows.length > 0 && (
+                <div className="text-red-400">
+                  Invalid district on lines: <span className="font-mono">{preview(report.invalidRows)}</span>
+                </div>
+              )}
+              {report.duplicateIds.length > 0 && (
+                <div className="text-amber-400" title="The last row for each ID is used">
+                  {report.duplicateIds.length.toLocaleString()} duplicate IDs: <span className="font-mono">{preview(report.duplicateIds)}</span>
+                </div>
+              )}
+              {report.unassigned.length > 0 && (
+                <div className="text-slate-400" title="These precincts keep their current district">
+                  {report.unassigned.length.toLocaleString()} precincts unassigned
+                </div>
+              )}
+              <button
+                onClick={handleApply}
+                disabled={applied || report.updates.length === 0}
+                className="w-full py-1.5 bg-blue-600 hover:bg-blue-500 text-white font-bold rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {applied ? 'Applied' : `Apply ${report.updates.length.toLocaleString()} Assignments`}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
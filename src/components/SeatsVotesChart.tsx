@@ -0,0 +1,52 @@
+import React from 'react';
+import type { SeatsVotesCurve } from '../core/analysis';
+
+interface SeatsVotesChartProps {
+  curve: SeatsVotesCurve;
+  width?: number;
+  height?: number;
+}
+
+const PADDING = 20;
+
+// Dem seat share against Dem vote share, with the observed result marked
+export const SeatsVotesChart: React.FC<SeatsVotesChartProps> = ({ curve, width = 232, height = 150 }) => {
+  const { points, districtCount } = curve;
+  if (points.length === 0 || districtCount === 0) return null;
+
+  const minVote = points[0].demVoteShare;
+  const maxVote = points[points.length - 1].demVoteShare;
+  const voteSpan = maxVote - minVote || 1;
+
+  const toX = (v: number) => PADDING + ((v - minVote) / voteSpan) * (width - 2 * PADDING);
+  const toY = (seats: number) => height - PADDING - (seats / districtCount) * (height - 2 * PADDING);
+
+  // Step line: seat counts are whole numbers
+  let path = `M ${toX(points[0].demVoteShare)} ${toY(points[0].demSeats)}`;
+  for (let i = 1; i < points.length; i++) {
+    path += ` H ${toX(points[i].demVoteShare)} V ${toY(points[i].demSeats)}`;
+  }
+
+  const observed = points.find(p => Math.abs(p.swing) < 1e-9);
+
+  return (
+    <svg width={width} height={height} className="block bg-slate-950/50 rounded border border-slate-800">
+      {minVote < 0.5 && maxVote > 0.5 && (
+        <line x1={toX(0.5)} x2={toX(0.5)} y1={PADDING} y2={height - PADDING} className="stroke-slate-700" strokeDasharray="3 3" />
+      )}
+      <line x1={PADDING} x2={width - PADDING} y1={toY(districtCount / 2)} y2={toY(districtCount / 2)} className="stroke-slate-700" strokeDasharray="3 3" />
+
+      <path d={path} fill="none" className="stroke-blue-400" strokeWidth={2} />
+      {observed && (
+        <circle cx={toX(observed.demVoteShare)} cy={toY(observed.demSeats)} r={4} className="fill-amber-400">
+          <title>{`Observed: ${(observed.demVoteShare * 100).toFixed(1)}% votes, ${observed.demSeats} seats`}</title>
+        </circle>
+      )}
+
+      <text x={PADDING} y={height - 6} className="fill-slate-500 text-[8px]">{(minVote * 100).toFixed(0)}%</text>
+      <text x={width - PADDING} y={height - 6} textAnchor="end" className="fill-slate-500 text-[8px]">{(maxVote * 100).toFixed(0)}%</text>
+      <text x={width / 2} y={height - 6} textAnchor="middle" className="fill-slate-500 text-[8px]">Dem vote share</text>
+      <text x={4} y={PADDING - 6} className="fill-slate-500 text-[8px]">{districtCount} seats</text>
+    </svg>
+  );
+};
@@ -1,29 +1,77 @@
 import React, { useEffect, useState } from 'react';
 import { workerManager } from '../core/WorkerManager';
-import type { DistrictStats } from '../core/analysis';
+import { DEFAULT_COMPETITIVE_BANDS, DEFAULT_POPULATION_TOLERANCES } from '../core/analysis';
+import type { DistrictStats, PlanType, SeatsVotesCurve, SplitSummary, StateAnalysis } from '../core/analysis';
+import { SeatsVotesChart } from './SeatsVotesChart';
+import { isOpportunityDistrict } from '../core/vra';
+import { BASE_YEAR, DEFAULT_PROJECTION, TREND_MODELS, forecast, metricSeries } from '../core/forecast';
+import type { ProjectionOptions, TrendModel } from '../core/forecast';
 import type { PrecinctData } from '../core/DataStore';
+import type { Community, CommunitySplit } from '../core/communities';
+import type { AnalysisOptions } from '../core/types';
 
 interface StatsPanelProps {
   selectedPrecinct?: PrecinctData | null;
+  onOpportunityDistricts?: (districtIds: number[]) => void;
+  communities?: Community[];
+  onAnalysisOptionsChange?: (options: AnalysisOptions) => void;
+  projection: ProjectionOptions; // Shared with the constraints panel and the annealer
+  onProjectionChange: (projection: ProjectionOptions) => void;
 }
 
-export const StatsPanel: React.FC<StatsPanelProps> = ({ selectedPrecinct }) => {
+export const StatsPanel: React.FC<StatsPanelProps> = ({ selectedPrecinct, onOpportunityDistricts, communities, onAnalysisOptionsChange, projection, onProjectionChange }) => {
   const [stats, setStats] = useState<DistrictStats[]>([]);
+  const [states, setStates] = useState<StateAnalysis[]>([]);
+  const [selectedStateId, setSelectedStateId] = useState<number | null>(null);
+  const [curves, setCurves] = useState<{ stateId: number, curve: SeatsVotesCurve }[]>([]);
+  const [bandsInput, setBandsInput] = useState(DEFAULT_COMPETITIVE_BANDS.join(', '));
+  const { model: trendModel, year: targetYear } = projection;
+  const [populationTolerance, setPopulationTolerance] = useState(DEFAULT_POPULATION_TOLERANCES.congressional);
+  const [communitySplits, setCommunitySplits] = useState<{ communities: CommunitySplit[], summary: SplitSummary } | null>(null);
 
+  const competitiveBands = bandsInput.split(',').map(Number).filter(b => b > 0);
+  const bandsKey = competitiveBands.join(',');
+
+  const stateSummary = states.find(s => s.stateId === selectedStateId) ?? states[0];
+  const seatsVotes = curves.find(c => c.stateId === stateSummary?.stateId)?.curve;
+
+  // Keeps the parent's copy current for exports
+  useEffect(() => {
+    onAnalysisOptionsChange?.({ competitiveBands: bandsKey ? bandsKey.split(',').map(Number) : undefined, populationTolerance });
+  }, [onAnalysisOptionsChange, bandsKey, populationTolerance]);
+
+  // Polls one request at a time: the next pass is scheduled only after the previous reply, so a
+  // slow analysis can't queue up in the worker ahead of annealing, ReCom or exports
   useEffect(() => {
-    const interval = setInterval(async () => {
+    let cancelled = false;
+    let timeout: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
       try {
-        const result = await workerManager.sendMessage('RUN_ANALYSIS', {});
-        // The worker returns { analysis, projections }, so we need to extract analysis
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        setStats((result as any).analysis as DistrictStats[]);
+        const result = await workerManager.sendMessage('RUN_ANALYSIS', { competitiveBands: bandsKey ? bandsKey.split(',').map(Number) : undefined, populationTolerance, communities });
+        // The worker returns { analysis, projections, states, communities, communitySummary }
+        const { analysis, states, communities: splits, communitySummary } = result as { analysis: DistrictStats[], states?: StateAnalysis[], communities?: CommunitySplit[], communitySummary?: SplitSummary };
+        if (cancelled) return;
+        setStats(analysis);
+        setStates(states || []);
+        setCommunitySplits(splits && communitySummary && splits.length > 0 ? { communities: splits, summary: communitySummary } : null);
+        onOpportunityDistricts?.(analysis.filter(d => isOpportunityDistrict(d.opportunity)).map(d => d.id));
+
+        const seatsVotesResult = await workerManager.sendMessage('SEATS_VOTES', {});
+        if (cancelled) return;
+        setCurves(seatsVotesResult as { stateId: number, curve: SeatsVotesCurve }[]);
       } catch (e) {
         console.error(e);
       }
-    }, 1000);
+      if (!cancelled) timeout = setTimeout(poll, 1000);
+    };
+    timeout = setTimeout(poll, 1000);
 
-    return () => clearInterval(interval);
-  }, []);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [onOpportunityDistricts, bandsKey, populationTolerance, communities]);
 
   return (
     <div className="absolute top-32 right-6 w-72 bg-slate-900/80 backdrop-blur-xl rounded-xl border border-slate-700/50 shadow-2xl p-5 transition-all duration-300 hover:bg-slate-900/90 max-h-[80vh] overflow-y-auto">
@@ -86,34 +134,41 @@ export const StatsPanel: React.FC<StatsPanelProps> = ({ selectedPrecinct }) => {
             {selectedPrecinct.history && selectedPrecinct.history.length > 0 && (
               <div className="mt-4 pt-2 border-t border-slate-800">
                 <h3 className="text-[10px] font-bold text-slate-500 uppercase mb-2 flex justify-between">
-                  <span>Trends (1980-2030)</span>
+                  <span>Trends ({selectedPrecinct.history[0].year}-{targetYear})</span>
                   <span className="text-emerald-400">
                     {((selectedPrecinct.stats[0] - selectedPrecinct.history[0].population) / selectedPrecinct.history[0].population * 100).toFixed(1)}% Growth
                   </span>
                 </h3>
+                <div className="flex gap-2 mb-2">
+                  <select
+                    value={trendModel}
+                    onChange={(e) => onProjectionChange({ ...projection, model: e.target.value as TrendModel })}
+                    className="flex-1 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-300"
+                  >
+                    {TREND_MODELS.map(m => (
+                      <option key={m.id} value={m.id}>{m.label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min={BASE_YEAR + 1}
+                    max="2100"
+                    value={targetYear}
+                    title="Projection year"
+                    onChange={(e) => onProjectionChange({ ...projection, year: Math.max(BASE_YEAR + 1, parseInt(e.target.value) || DEFAULT_PROJECTION.year) })}
+                    className="w-14 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-right text-[10px] text-slate-200 focus:outline-none focus:border-blue-500"
+                  />
+                </div>
                 <div className="flex items-end gap-1 h-16 mt-2 border-b border-slate-700/50 pb-1 relative">
                   {(() => {
-                    // Prepare data for regression
-                    const historyData = selectedPrecinct.history!.map(h => ({ x: h.year, y: h.population }));
-                    historyData.push({ x: 2020, y: selectedPrecinct.stats[0] });
-                    
-                    // Simple Linear Regression inline (since we can't easily import the helper here without refactoring imports or moving logic)
-                    // Actually, let's just do it inline for the UI component or import it if possible.
-                    // Importing from core/analysis might cause circular deps if not careful, but usually components -> core is fine.
-                    // Let's implement a simple helper here to avoid import issues for now.
-                    const n = historyData.length;
-                    const sumX = historyData.reduce((a, b) => a + b.x, 0);
-                    const sumY = historyData.reduce((a, b) => a + b.y, 0);
-                    const sumXY = historyData.reduce((a, b) => a + b.x * b.y, 0);
-                    const sumXX = historyData.reduce((a, b) => a + b.x * b.x, 0);
-                    const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
-                    const intercept = (sumY - slope * sumX) / n;
-                    
-                    const project = (year: number) => slope * year + intercept;
+                    const series = metricSeries(selectedPrecinct.history!, 'population', selectedPrecinct.stats[0]);
+                    const projections = Array.from(new Set([BASE_YEAR + 5, targetYear]))
+                      .filter(year => year > BASE_YEAR && year <= targetYear)
+                      .map(year => forecast(series, year, trendModel));
                     
                     const maxPop = Math.max(
-                      ...historyData.map(d => d.y), 
-                      project(2030)
+                      ...series.map(d => d.y), 
+                      ...projections.map(p => p.upper)
                     );
 
                     return (
@@ -144,18 +199,22 @@ export const StatsPanel: React.FC<StatsPanelProps> = ({ selectedPrecinct }) => {
                             </div>
                         </div>
 
-                        {/* Projections */}
-                        {[2025, 2030].map(year => {
-                           const val = project(year);
+                        {/* Projections, with the 95% prediction interval as a band */}
+                        {projections.map(p => {
+                           const lower = Math.max(0, p.lower);
                            return (
-                            <div key={year} className="flex-1 flex flex-col justify-end group relative opacity-70">
+                            <div key={p.year} className="flex-1 flex flex-col justify-end group relative opacity-70">
+                              <div
+                                className="absolute inset-x-1 bg-emerald-400/20 border-y border-emerald-400/60"
+                                style={{ bottom: `${(lower / maxPop) * 100}%`, height: `${((p.upper - lower) / maxPop) * 100}%` }}
+                              ></div>
                               <div 
                                 className="bg-emerald-500/30 border border-emerald-500/50 border-dashed hover:bg-emerald-400/50 transition-all rounded-t-sm"
-                                style={{ height: `${(val / maxPop) * 100}%` }}
+                                style={{ height: `${(Math.max(0, p.value) / maxPop) * 100}%` }}
                               ></div>
-                              <span className="text-[6px] text-emerald-500 text-center mt-1 rotate-[-45deg] origin-top-left translate-y-2">{year}</span>
+                              <span className="text-[6px] text-emerald-500 text-center mt-1 rotate-[-45deg] origin-top-left translate-y-2">{p.year}</span>
                               <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-1 bg-slate-800 text-xs px-1 py-0.5 rounded opacity-0 group-hover:opacity-100 pointer-events-none whitespace-nowrap z-10 border border-slate-600 text-emerald-400">
-                                {Math.round(val).toLocaleString()} (Proj)
+                                {Math.round(p.value).toLocaleString()} ({Math.round(lower).toLocaleString()}-{Math.round(p.upper).toLocaleString()})
                               </div>
                             </div>
                            );
@@ -164,6 +223,21 @@ export const StatsPanel: React.FC<StatsPanelProps> = ({ selectedPrecinct }) => {
                     );
                   })()}
                 </div>
+
+                {/* Projection bands for every metric at the target year */}
+                <div className="mt-4 space-y-0.5 text-[10px] font-mono">
+                  {([['Population', 'population', 0], ['Dem', 'demVotes', 1], ['Rep', 'repVotes', 2], ['White', 'white', 3], ['Black', 'black', 4], ['Hispanic', 'hispanic', 5]] as const).map(([label, metric, i]) => {
+                    const p = forecast(metricSeries(selectedPrecinct.history!, metric, selectedPrecinct.stats[i]), targetYear, trendModel);
+                    return (
+                      <div key={metric} className="flex justify-between">
+                        <span className="text-slate-500">{label} {targetYear}</span>
+                        <span className="text-emerald-400">
+                          {Math.round(Math.max(0, p.value)).toLocaleString()} <span className="text-slate-500">({Math.round(Math.max(0, p.lower)).toLocaleString()}-{Math.round(p.upper).toLocaleString()})</span>
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
                 
                 {/* Demographic Trends */}
                 <h3 className="text-[10px] font-bold text-slate-500 uppercase mt-3 mb-2">Demographic Trends</h3>
@@ -201,6 +275,234 @@ export const StatsPanel: React.FC<StatsPanelProps> = ({ selectedPrecinct }) => {
         </div>
       )}
 
+      {stateSummary && (
+        <div className="mb-6 pb-6 border-b border-slate-700/50">
+          <h2 className="text-xs font-bold text-slate-400 mb-4 uppercase tracking-widest flex items-center gap-2">
+            <span className="w-2 h-2 rounded-full bg-amber-500 animate-pulse"></span>
+            State Summary
+          </h2>
+          <select 
+            value={stateSummary.stateId}
+            onChange={(e) => setSelectedStateId(Number(e.target.value))}
+            className="w-full bg-slate-900 border border-slate-700 rounded px-1 py-1 text-xs text-slate-300 mb-3"
+          >
+            {states.map(s => (
+              <option key={s.stateId} value={s.stateId}>{s.populationEquality.withinTolerance ? '' : '⚠ '}{s.name} ({s.districtCount})</option>
+            ))}
+          </select>
+          <div className="space-y-2 text-xs">
+            <div className="flex justify-between">
+              <span className="text-slate-400">Counties Split</span>
+              <span className={`font-mono ${stateSummary.countySplits.splitGroups > 0 ? 'text-amber-400' : 'text-emerald-400'}`}>
+                {stateSummary.countySplits.splitGroups} / {stateSummary.countySplits.groups}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-slate-400">Total Splits</span>
+              <span className="font-mono text-slate-200">{stateSummary.countySplits.splits}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-slate-400" title="Majority-minority + coalition districts">VRA Opportunity (Total)</span>
+              <span className="font-mono text-yellow-400">
+                {stateSummary.opportunityDistricts.majorityMinority} + {stateSummary.opportunityDistricts.coalition}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-slate-400" title="Majority-minority + coalition districts, voting-age proxy">VRA Opportunity (VAP)</span>
+              <span className="font-mono text-yellow-400">
+                {stateSummary.opportunityDistricts.majorityMinorityVap} + {stateSummary.opportunityDistricts.coalitionVap}
+              </span>
+            </div>
+
+            <div className="mt-4 pt-2 border-t border-slate-800 space-y-2">
+              <div className="flex justify-between items-center text-[10px] text-slate-500 uppercase tracking-wider">
+                <span>Population Equality</span>
+                <span className="flex items-center gap-1">
+                  <select
+                    value={(Object.keys(DEFAULT_POPULATION_TOLERANCES) as PlanType[]).find(t => DEFAULT_POPULATION_TOLERANCES[t] === populationTolerance) ?? ''}
+                    onChange={(e) => e.target.value && setPopulationTolerance(DEFAULT_POPULATION_TOLERANCES[e.target.value as PlanType])}
+                    className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-300 normal-case"
+                  >
+                    <option value="congressional">Congressional</option>
+                    <option value="legislative">Legislative</option>
+                    <option value="">Custom</option>
+                  </select>
+                  <span>±</span>
+                  <input 
+                    type="number" 
+                    min="0"
+                    step="0.5"
+                    value={populationTolerance}
+                    title="Tolerance, % of ideal population"
+                    onChange={(e) => setPopulationTolerance(Math.max(0, Number(e.target.value) || 0))}
+                    className="w-10 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-right text-[10px] text-slate-200 focus:outline-none focus:border-blue-500"
+                  />
+                  <span>%</span>
+                </span>
+              </div>
+              {(() => {
+                const eq = stateSummary.populationEquality;
+                const overStates = states.filter(s => !s.populationEquality.withinTolerance).length;
+                return (
+                  <>
+                    <div className="flex justify-between">
+                      <span className="text-slate-400">Status</span>
+                      <span className={`font-mono font-bold ${eq.withinTolerance ? 'text-emerald-400' : 'text-red-400'}`}>
+                        {eq.withinTolerance ? 'Within tolerance' : 'Exceeds tolerance'}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-slate-400">Ideal Population</span>
+                      <span className="font-mono text-slate-200">{Math.round(eq.idealPopulation).toLocaleString()}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-slate-400">Overall Range</span>
+                      <span className="font-mono text-slate-200">{eq.range.toFixed(2)}% <span className="text-slate-500">({eq.rangePopulation.toLocaleString()})</span></span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-slate-400">Mean Abs. Deviation</span>
+                      <span className="font-mono text-slate-200">{eq.meanAbsoluteDeviation.toFixed(2)}%</span>
+                    </div>
+                    {eq.districts.length < stateSummary.districtCount && (
+                      <div className="text-[10px] text-red-400">{stateSummary.districtCount - eq.districts.length} apportioned districts have no precincts</div>
+                    )}
+                    <div className="max-h-32 overflow-y-auto space-y-0.5 text-[10px] font-mono">
+                      {eq.districts.map(d => (
+                        <div key={d.districtId} className="flex justify-between">
+                          <span className="text-blue-400">{d.districtId}</span>
+                          <span className={Math.abs(d.percentDeviation) > eq.tolerance && Math.abs(d.deviation) > 1 ? 'text-red-400' : 'text-slate-400'}>
+                            {d.deviation > 0 ? '+' : ''}{Math.round(d.deviation).toLocaleString()} ({d.percentDeviation > 0 ? '+' : ''}{d.percentDeviation.toFixed(2)}%)
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                    {overStates > 0 && (
+                      <div className="text-[10px] text-slate-500">{overStates} of {states.length} states exceed ±{eq.tolerance}%</div>
+                    )}
+                  </>
+                );
+              })()}
+            </div>
+
+            {stateSummary.retention && (
+              <div className="mt-4 pt-2 border-t border-slate-800 space-y-2">
+                <div className="text-[10px] text-slate-500 uppercase tracking-wider">Core Retention (vs baseline)</div>
+                <div className="flex justify-between">
+                  <span className="text-slate-400">Mean Retention</span>
+                  <span className="font-mono text-slate-200">{(stateSummary.retention.meanRetention * 100).toFixed(1)}%</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-400" title="People whose district number differs from the baseline">Changed District</span>
+                  <span className="font-mono text-amber-400">
+                    {stateSummary.retention.changedPopulation.toLocaleString()}
+                    <span className="text-slate-500"> ({stateSummary.retention.totalPopulation > 0 ? (stateSummary.retention.changedPopulation / stateSummary.retention.totalPopulation * 100).toFixed(1) : '0.0'}%)</span>
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-400" title="People outside their district's largest baseline core, regardless of numbering">Outside Core</span>
+                  <span className="font-mono text-slate-200">{stateSummary.retention.displacedPopulation.toLocaleString()}</span>
+                </div>
+              </div>
+            )}
+
+            <div className="mt-4 pt-2 border-t border-slate-800 space-y-2">
+              <div className="flex justify-between items-center text-[10px] text-slate-500 uppercase tracking-wider">
+                <span>Competitive Seats (raw / proj.)</span>
+                <input 
+                  type="text" 
+                  value={bandsInput}
+                  title="Margin bands in points, comma separated"
+                  onChange={(e) => setBandsInput(e.target.value)}
+                  className="w-16 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-right text-[10px] text-slate-200 focus:outline-none focus:border-blue-500"
+                />
+              </div>
+              {stateSummary.competitiveSeats.map(c => (
+                <div key={c.band} className="flex justify-between">
+                  <span className="text-slate-400">Within {c.band} pts</span>
+                  <span className="font-mono text-purple-400">{c.seats} / {c.projectedSeats}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="mt-4 pt-2 border-t border-slate-800 space-y-2">
+              <div className="flex justify-between text-[10px] text-slate-500 uppercase tracking-wider">
+                <span>Partisan Fairness</span>
+                <span>+ favours Rep</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-slate-400">Dem Votes / Seats</span>
+                <span className="font-mono text-slate-200">
+                  {(stateSummary.fairness.demVoteShare * 100).toFixed(1)}% / {stateSummary.fairness.demSeats} of {stateSummary.districtCount}
+                </span>
+              </div>
+              {([
+                ['Efficiency Gap', stateSummary.fairness.efficiencyGap],
+                ['Mean-Median', stateSummary.fairness.meanMedian],
+                ['Partisan Bias', stateSummary.fairness.partisanBias],
+                ['Declination', stateSummary.fairness.declination],
+                ['Lopsided Margins', stateSummary.fairness.lopsidedMargins?.difference ?? null]
+              ] as [string, number | null][]).map(([label, value]) => (
+                <div key={label} className="flex justify-between">
+                  <span className="text-slate-400">{label}</span>
+                  <span className={`font-mono ${value === null ? 'text-slate-600' : value > 0 ? 'text-red-400' : 'text-blue-400'}`}>
+                    {value === null ? 'n/a' : `${value > 0 ? '+' : ''}${value.toFixed(3)}`}
+                    {label === 'Lopsided Margins' && stateSummary.fairness.lopsidedMargins?.tStatistic != null && (
+                      <span className="text-slate-500"> (t={stateSummary.fairness.lopsidedMargins.tStatistic.toFixed(2)})</span>
+                    )}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {seatsVotes && seatsVotes.districtCount > 0 && (
+              <div className="mt-4 pt-2 border-t border-slate-800 space-y-2">
+                <div className="text-[10px] text-slate-500 uppercase tracking-wider">Seats-Votes (±15pt swing)</div>
+                <SeatsVotesChart curve={seatsVotes} />
+                <div className="flex justify-between">
+                  <span className="text-slate-400">Responsiveness</span>
+                  <span className="font-mono text-slate-200">{seatsVotes.responsiveness.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-400">Asymmetry</span>
+                  <span className={`font-mono ${seatsVotes.symmetry > 0 ? 'text-red-400' : 'text-blue-400'}`}>
+                    {seatsVotes.symmetry > 0 ? '+' : ''}{seatsVotes.symmetry.toFixed(3)}
+                  </span>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {communitySplits && (
+        <div className="mb-6 pb-6 border-b border-slate-700/50">
+          <h2 className="text-xs font-bold text-slate-400 mb-4 uppercase tracking-widest flex items-center gap-2">
+            <span className="w-2 h-2 rounded-full bg-cyan-500 animate-pulse"></span>
+            Communities of Interest
+          </h2>
+          <div className="space-y-2 text-xs">
+            <div className="flex justify-between">
+              <span className="text-slate-400">Communities Split</span>
+              <span className={`font-mono ${communitySplits.summary.splitGroups > 0 ? 'text-amber-400' : 'text-emerald-400'}`}>
+                {communitySplits.summary.splitGroups} / {communitySplits.summary.groups}
+              </span>
+            </div>
+            {communitySplits.communities.map(c => (
+              <div
+                key={c.id}
+                className="flex justify-between"
+                title={c.districts.map(d => `${d.districtId}: ${d.population.toLocaleString()}`).join('\n')}
+              >
+                <span className="text-slate-400 truncate">{c.name}</span>
+                <span className={`font-mono ${c.splits > 0 ? 'text-amber-400' : 'text-emerald-400'}`}>
+                  {c.splits > 0 ? `${c.districts.length} districts · ${(c.largestShare * 100).toFixed(0)}% kept` : 'Whole'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <h2 className="text-xs font-bold text-slate-400 mb-4 uppercase tracking-widest flex items-center gap-2">
         <span className="w-2 h-2 rounded-full bg-blue-500 animate-pulse"></span>
         District Statistics
@@ -228,6 +530,46 @@ export const StatsPanel: React.FC<StatsPanelProps> = ({ selectedPrecinct }) => {
               <span>Inc: ${Math.round(s.income).toLocaleString()}</span>
             </div>
 
+            <div className="flex justify-between items-center text-xs mb-2 text-slate-400">
+              <span title="Polsby-Popper">PP: {s.polsbyPopper.toFixed(2)}</span>
+              <span title="Reock">Reock: {s.reock.toFixed(2)}</span>
+              <span title="Convex Hull Ratio">Hull: {s.convexHullRatio.toFixed(2)}</span>
+            </div>
+
+            <div className="flex justify-between items-center text-xs mb-2 text-slate-400">
+              <span title="Two-party margin">Margin: {s.margin.toFixed(1)} pts</span>
+              <span title="Swing-projected margin">Proj: {s.projectedMargin.toFixed(1)} pts</span>
+              {s.competitiveBand !== null && (
+                <span className="px-1 rounded bg-purple-500/10 text-purple-400 border border-purple-500/20 text-[10px] font-bold">≤{s.competitiveBand}</span>
+              )}
+            </div>
+
+            {(s.opportunity.majorityMinority || s.opportunity.coalition || s.opportunity.majorityMinorityVap || s.opportunity.coalitionVap) && (
+              <div className="flex gap-1 mb-2 text-[10px] font-bold uppercase">
+                {s.opportunity.majorityMinority && <span className="px-1 rounded bg-yellow-500/10 text-yellow-400 border border-yellow-500/20">Maj-Min</span>}
+                {s.opportunity.coalition && <span className="px-1 rounded bg-yellow-500/10 text-yellow-400 border border-yellow-500/20">Coalition</span>}
+                {s.opportunity.majorityMinorityVap && <span className="px-1 rounded bg-amber-500/10 text-amber-400 border border-amber-500/20">Maj-Min VAP</span>}
+                {s.opportunity.coalitionVap && <span className="px-1 rounded bg-amber-500/10 text-amber-400 border border-amber-500/20">Coalition VAP</span>}
+              </div>
+            )}
+
+            {s.coreRetention && (
+              <div className="flex justify-between items-center text-xs mb-2 text-slate-400">
+                <span title="Share of population from the baseline district it overlaps most">Core: {(s.coreRetention.retention * 100).toFixed(1)}%</span>
+                <span className="font-mono text-slate-500">of {s.coreRetention.coreDistrict}</span>
+              </div>
+            )}
+
+            {s.history && s.history.length > 1 && (() => {
+              const p = forecast(metricSeries(s.history, 'population', s.population), targetYear, trendModel);
+              return (
+                <div className="flex justify-between items-center text-xs mb-2 text-slate-400" title="95% prediction interval">
+                  <span>Pop {targetYear}: <span className="text-emerald-400 font-mono">{Math.round(Math.max(0, p.value)).toLocaleString()}</span></span>
+                  <span className="font-mono text-slate-500">{Math.round(Math.max(0, p.lower)).toLocaleString()}-{Math.round(p.upper).toLocaleString()}</span>
+                </div>
+              );
+            })()}
+
             {/* Mini Demographic Bar */}
             <div className="w-full h-1.5 bg-slate-800 rounded-full overflow-hidden flex mb-2">
               <div style={{ width: `${(s.white / s.population) * 100}%` }} className="h-full bg-slate-400" title="White"></div>
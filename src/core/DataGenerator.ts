@@ -1,7 +1,12 @@
 import * as topojson from 'topojson-client';
 import { geoAlbersUsa } from 'd3-geo';
+import type { GeoProjection } from 'd3-geo';
 import * as turf from '@turf/turf';
 import type { Feature, Polygon, MultiPolygon, FeatureCollection, Geometry } from 'geojson';
+import { createRng, deriveSeed, DEFAULT_SEED } from './random';
+import type { Rng } from './random';
+import { mapPrecinctProperties, STAT_COLUMNS } from './precinctImport';
+import type { PrecinctPropertyMapping } from './precinctImport';
 
 interface ProcessedCountyData {
   fips: string;
@@ -28,12 +33,57 @@ interface ProcessedCountyData {
 }
 
 export class DataGenerator {
+  // Albers USA fitted to the 1000x600 map space shared by every data source; `invert` maps back to lon/lat
+  static createProjection(): GeoProjection {
+    const width = 1000;
+    const height = 600;
+    return geoAlbersUsa().scale(1300).translate([width / 2, height / 2]);
+  }
+
+  // Projects polygon rings into map space, dropping points outside the projection and growing `bounds`
+  static projectCoordinates(geometry: Geometry | null, projection: GeoProjection, bounds: [number, number, number, number]): number[][][] | number[][][][] {
+    const newCoordinates: number[][][] | number[][][][] = [];
+
+    const projectRing = (ring: number[][]) => {
+      const projectedRing: number[][] = [];
+      ring.forEach(coord => {
+        const projected = projection([coord[0], coord[1]]);
+        if (projected) {
+          projectedRing.push(projected);
+          bounds[0] = Math.min(bounds[0], projected[0]);
+          bounds[1] = Math.min(bounds[1], projected[1]);
+          bounds[2] = Math.max(bounds[2], projected[0]);
+          bounds[3] = Math.max(bounds[3], projected[1]);
+        }
+      });
+      return projectedRing;
+    };
+
+    if (geometry?.type === 'Polygon') {
+      geometry.coordinates.forEach((ring) => {
+        const projRing = projectRing(ring);
+        if (projRing.length > 0) (newCoordinates as number[][][]).push(projRing);
+      });
+    } else if (geometry?.type === 'MultiPolygon') {
+      geometry.coordinates.forEach((poly) => {
+        const newPoly: number[][][] = [];
+        poly.forEach((ring) => {
+          const projRing = projectRing(ring);
+          if (projRing.length > 0) newPoly.push(projRing);
+        });
+        if (newPoly.length > 0) (newCoordinates as number[][][][]).push(newPoly);
+      });
+    }
+    return newCoordinates;
+  }
+
   // Helper to subdivide a feature into smaller polygons
-  static subdivideFeature(feature: Feature<Polygon | MultiPolygon>, count: number): Feature<Polygon | MultiPolygon>[] {
+  static subdivideFeature(feature: Feature<Polygon | MultiPolygon>, count: number, random: Rng = Math.random): Feature<Polygon | MultiPolygon>[] {
     try {
-      // 1. Generate random points inside the feature
-      const points = turf.randomPoint(count, { bbox: turf.bbox(feature) });
-      const validPoints = points.features.filter(pt => turf.booleanPointInPolygon(pt, feature));
+      // 1. Generate random points inside the feature (uniform over the bbox, like turf.randomPoint but seedable)
+      const [minX, minY, maxX, maxY] = turf.bbox(feature);
+      const points = Array.from({ length: count }, () => turf.point([minX + random() * (maxX - minX), minY + random() * (maxY - minY)]));
+      const validPoints = points.filter(pt => turf.booleanPointInPolygon(pt, feature));
       
       // Ensure we have at least some points, if not, add centroid
       if (validPoints.length === 0) {
@@ -69,8 +119,9 @@ export class DataGenerator {
     }
   }
 
-  // Stream features to avoid holding everything in memory
-  static async *loadUSDataGenerator(): AsyncGenerator<{ features: Feature<Polygon | MultiPolygon>[], bounds: [number, number, number, number] }> {
+  // Stream features to avoid holding everything in memory.
+  // The same seed always yields the same precinct geometry and stat shares.
+  static async *loadUSDataGenerator(seed: number = DEFAULT_SEED): AsyncGenerator<{ features: Feature<Polygon | MultiPolygon>[], bounds: [number, number, number, number] }> {
     try {
       // Fetch US Atlas data (Topology)
       const topologyPromise = fetch('/data/counties-10m.json').then(r => {
@@ -98,12 +149,8 @@ export class DataGenerator {
       // Convert to GeoJSON
       const geojson = topojson.feature(topology, topology.objects.counties) as unknown as FeatureCollection<Geometry>;
       
-      // Setup Projection (Albers USA)
-      const width = 1000;
-      const height = 600;
-      const projection = geoAlbersUsa().scale(1300).translate([width / 2, height / 2]);
-
-      let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+      const projection = DataGenerator.createProjection();
+      const bounds: [number, number, number, number] = [Infinity, Infinity, -Infinity, -Infinity];
 
       // Process features in chunks
       const CHUNK_SIZE = 50; 
@@ -111,40 +158,7 @@ export class DataGenerator {
 
       for (const feature of geojson.features) {
         const geometry = feature.geometry;
-        const newCoordinates: number[][][] | number[][][][] = [];
-
-        const projectRing = (ring: number[][]) => {
-          const projectedRing: number[][] = [];
-          ring.forEach(coord => {
-            const projected = projection([coord[0], coord[1]]);
-            if (projected) {
-              projectedRing.push(projected);
-              minX = Math.min(minX, projected[0]);
-              minY = Math.min(minY, projected[1]);
-              maxX = Math.max(maxX, projected[0]);
-              maxY = Math.max(maxY, projected[1]);
-            }
-          });
-          return projectedRing;
-        };
-
-        if (geometry.type === 'Polygon') {
-          const poly = geometry as Polygon;
-          poly.coordinates.forEach((ring) => {
-            const projRing = projectRing(ring);
-            if (projRing.length > 0) (newCoordinates as number[][][]).push(projRing);
-          });
-        } else if (geometry.type === 'MultiPolygon') {
-          const multiPoly = geometry as MultiPolygon;
-          multiPoly.coordinates.forEach((poly) => {
-            const newPoly: number[][][] = [];
-            poly.forEach((ring) => {
-              const projRing = projectRing(ring);
-              if (projRing.length > 0) newPoly.push(projRing);
-            });
-            if (newPoly.length > 0) (newCoordinates as number[][][][]).push(newPoly);
-          });
-        }
+        const newCoordinates = DataGenerator.projectCoordinates(geometry, projection, bounds);
 
         if (newCoordinates.length > 0) {
           const id = Number(feature.id);
@@ -184,12 +198,14 @@ export class DataGenerator {
 
           const subCount = Math.max(2, Math.min(10, Math.floor(population / 10000)));
           
-          const subFeatures = DataGenerator.subdivideFeature(projectedFeature, subCount);
+          // Seed per county so results don't depend on feature order
+          const random = createRng(deriveSeed(seed, id));
+          const subFeatures = DataGenerator.subdivideFeature(projectedFeature, subCount, random);
           
           subFeatures.forEach((subFeature, idx) => {
             const ratio = 1 / subFeatures.length;
             // Add some noise to make it look less uniform
-            const noise = () => 0.9 + Math.random() * 0.2; 
+            const noise = () => 0.9 + random() * 0.2; 
 
             const subPop = Math.round(population * ratio * noise());
             const subDem = Math.round(demVotes * ratio * noise());
@@ -222,7 +238,7 @@ export class DataGenerator {
         }
 
         if (chunk.length >= CHUNK_SIZE) {
-          yield { features: chunk, bounds: [minX, minY, maxX, maxY] };
+          yield { features: chunk, bounds: [...bounds] };
           chunk = [];
           // Yield to event loop to allow GC
           await new Promise(resolve => setTimeout(resolve, 0));
@@ -231,13 +247,14 @@ export class DataGenerator {
 
       // Yield remaining
       if (chunk.length > 0) {
-        yield { features: chunk, bounds: [minX, minY, maxX, maxY] };
+        yield { features: chunk, bounds: [...bounds] };
       }
 
     } catch (e) {
       console.error("Failed to load real data, falling back to synthetic grid", e);
       
       // Fallback: Generate a simple 10x10 grid of precincts
+      const random = createRng(seed);
       const features: Feature<Polygon | MultiPolygon>[] = [];
       const width = 1000;
       const height = 600;
@@ -268,9 +285,9 @@ export class DataGenerator {
             properties: {
               countyId: id,
               stateId: 1,
-              population: 5000 + Math.random() * 5000,
-              demVotes: 2500 + Math.random() * 2000 - 1000, // 1500-3500
-              repVotes: 2500 + Math.random() * 2000 - 1000, // 1500-3500
+              population: 5000 + random() * 5000,
+              demVotes: 2500 + random() * 2000 - 1000, // 1500-3500
+              repVotes: 2500 + random() * 2000 - 1000, // 1500-3500
               white: 3000,
               black: 1000,
               hispanic: 1000,
@@ -285,4 +302,42 @@ export class DataGenerator {
       yield { features, bounds: [0, 0, width, height] };
     }
   }
+
+  // Real precincts: no subdivision, stats come straight from the mapped source properties.
+  // Ids are assigned in file order since the hit canvas encodes them in 24 bits; the source id is kept as `geoid`.
+  static async *loadPrecinctFeatures(collection: FeatureCollection<Geometry>, mapping: PrecinctPropertyMapping): AsyncGenerator<{ features: Feature<Polygon | MultiPolygon>[], bounds: [number, number, number, number] }> {
+    const projection = DataGenerator.createProjection();
+    const bounds: [number, number, number, number] = [Infinity, Infinity, -Infinity, -Infinity];
+    const CHUNK_SIZE = 500;
+    let chunk: Feature<Polygon | MultiPolygon>[] = [];
+    let nextId = 0;
+
+    for (const feature of collection.features) {
+      const mapped = mapPrecinctProperties(feature.properties, mapping);
+      const coordinates = mapped ? DataGenerator.projectCoordinates(feature.geometry, projection, bounds) : [];
+      if (!mapped || coordinates.length === 0) continue; // Unknown state, or outside the projection
+
+      chunk.push({
+        type: 'Feature',
+        id: nextId++,
+        properties: {
+          geoid: mapped.geoid,
+          stateId: mapped.stateId,
+          countyId: mapped.countyId,
+          ...Object.fromEntries(STAT_COLUMNS.map((column, i) => [column, mapped.stats[i]]))
+        },
+        geometry: { type: feature.geometry!.type, coordinates } as Polygon | MultiPolygon
+      });
+
+      if (chunk.length >= CHUNK_SIZE) {
+        yield { features: chunk, bounds: [...bounds] };
+        chunk = [];
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+
+    if (chunk.length > 0) {
+      yield { features: chunk, bounds: [...bounds] };
+    }
+  }
 }
@@ -1,13 +1,18 @@
 import { SpatialIndex } from './SpatialIndex';
 import type { PrecinctStats } from './types';
+import { polygonCentroid } from './geometry';
+import { precinctsInPolygon } from './communities';
 
 export interface PrecinctData {
   id: number;
-  coords: Float32Array;
-  stats: Int32Array; // [Pop, Dem, Rep, White, Black, Hispanic, Education, Income]
+  coords: Float32Array; // Every ring's vertices, flat
+  rings: Uint32Array; // Start offset of each ring in coords
+  parts: Uint32Array; // First ring of each polygon part; the rest of a part's rings are holes
+  stats: Float64Array; // [Pop, Dem, Rep, White, Black, Hispanic, Education, Income]
   districtId: number;
   stateId: number;
   countyId?: number;
+  geoid?: string; // Source identifier for precincts loaded from a file
   bounds: { minX: number; minY: number; maxX: number; maxY: number };
   projectedDemVotes?: number;
   projectedRepVotes?: number;
@@ -23,8 +28,10 @@ export class DataStore {
     // Initialize with empty state
   }
 
-  public addPrecinct(id: number, coords: Float32Array, stats: Int32Array, districtId: number, stateId: number, countyId?: number, history: PrecinctStats[] = []) {
-    // Calculate bounds
+  public addPrecinct(id: number, geometry: { coords: Float32Array, rings: Uint32Array, parts: Uint32Array }, stats: Float64Array, districtId: number, stateId: number, countyId?: number, history: PrecinctStats[] = [], geoid?: string) {
+    const { coords, rings, parts } = geometry;
+
+    // Calculate bounds over every part
     let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
     for (let i = 0; i < coords.length; i += 2) {
       const x = coords[i];
@@ -38,10 +45,13 @@ export class DataStore {
     const precinct: PrecinctData = {
       id,
       coords,
+      rings,
+      parts,
       stats,
       districtId,
       stateId,
       countyId,
+      geoid,
       bounds: { minX, minY, maxX, maxY },
       history
     };
@@ -58,6 +68,25 @@ export class DataStore {
     return this.precincts.values();
   }
 
+  // Snapshot of the current precinct -> district assignment
+  public getAssignment(): Map<number, number> {
+    const assignment = new Map<number, number>();
+    this.precincts.forEach((p, id) => assignment.set(id, p.districtId));
+    return assignment;
+  }
+
+  // Precincts whose centroid lies inside a map-space ring
+  public getPrecinctsInPolygon(ring: ArrayLike<number>): number[] {
+    return precinctsInPolygon(
+      ring,
+      bbox => this.spatialIndex.search(bbox),
+      id => {
+        const precinct = this.precincts.get(id);
+        return precinct ? polygonCentroid(precinct) : undefined;
+      }
+    );
+  }
+
   public updatePrecinctDistrict(id: number, newDistrictId: number) {
     const precinct = this.precincts.get(id);
     if (precinct) {
@@ -69,6 +98,7 @@ export class DataStore {
   public clear() {
     this.precincts.clear();
     this.districtStats.clear();
+    this.spatialIndex.clear();
   }
 }
 
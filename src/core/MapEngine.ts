@@ -4,7 +4,17 @@ import { DataGenerator } from './DataGenerator';
 import { BrushManager } from './BrushManager';
 import { workerManager } from './WorkerManager';
 import type { Feature, Polygon, MultiPolygon } from 'geojson';
-import type { Constraint } from './types';
+import type { AnalysisOptions, Constraint, RedistrictOptions } from './types';
+import { createRng, deriveSeed, DEFAULT_SEED } from './random';
+import type { ParetoFront, ParetoOptions } from './pareto';
+import { createPlanDocument, datasetFingerprint, migratePlanDocument } from './planDocument';
+import { toFeatureCollection } from './precinctImport';
+import { flattenPolygons } from './geometry';
+import { districtFeatureCollection, serializeDistricts } from './districtExport';
+import type { DistrictExportFormat } from './districtExport';
+import type { PrecinctPropertyMapping } from './precinctImport';
+import type { DataSourceIdentity, PlanDocument } from './planDocument';
+import type { DistrictStats, StateAnalysis } from './analysis';
 
 export class MapEngine {
   private canvas: HTMLCanvasElement | null = null;
@@ -20,6 +30,13 @@ export class MapEngine {
   private districtBorders: Map<number, Feature<Polygon | MultiPolygon>> = new Map();
   private isRunning = false;
   private viewMode: 'district' | 'political' = 'district';
+  private highlightedDistricts = new Set<number>(); // e.g. VRA opportunity districts
+  private changedPrecincts = new Set<number>(); // Plan comparison overlay
+  private communityPrecincts = new Set<number>(); // Selected community of interest overlay
+  private drawingRing: number[] | null = null; // Map-space vertices while a polygon is being drawn
+  private onDrawingComplete: ((ring: number[]) => void) | null = null;
+  private dataSource: DataSourceIdentity | null = null; // Identity of the loaded precincts, recorded in saved plans
+  private baseline: Map<number, number> | null = null; // Last plan sent with setBaseline
   public onPrecinctSelect: ((data: PrecinctData | null) => void) | null = null;
 
   constructor(dataStore: DataStore) {
@@ -30,6 +47,8 @@ export class MapEngine {
     this.render = this.render.bind(this);
     this.handleMouseLeave = this.handleMouseLeave.bind(this);
     this.handleClick = this.handleClick.bind(this);
+    this.handleDoubleClick = this.handleDoubleClick.bind(this);
+    this.handleKeyDown = this.handleKeyDown.bind(this);
   }
 
   public setDistrictBorders(borders: Map<number, Feature<Polygon | MultiPolygon>>) {
@@ -42,6 +61,52 @@ export class MapEngine {
     this.render();
   }
 
+  public setHighlightedDistricts(districtIds: number[]) {
+    this.highlightedDistricts = new Set(districtIds);
+    this.render();
+  }
+
+  public setChangedPrecincts(precinctIds: number[]) {
+    this.changedPrecincts = new Set(precinctIds);
+    this.render();
+  }
+
+  public setCommunityPrecincts(precinctIds: number[]) {
+    this.communityPrecincts = new Set(precinctIds);
+    this.render();
+  }
+
+  // Click to add vertices, double-click to finish, Escape to cancel; brushing and selection pause meanwhile
+  public startPolygonDrawing(onComplete: (ring: number[]) => void) {
+    this.drawingRing = [];
+    this.onDrawingComplete = onComplete;
+    this.render();
+  }
+
+  public cancelPolygonDrawing() {
+    this.drawingRing = null;
+    this.onDrawingComplete = null;
+    this.render();
+  }
+
+  private toMapSpace(e: MouseEvent): [number, number] {
+    const rect = this.canvas!.getBoundingClientRect();
+    const { x, y, k } = this.transform;
+    return [(e.clientX - rect.left - x) / k, (e.clientY - rect.top - y) / k];
+  }
+
+  private handleDoubleClick() {
+    if (!this.drawingRing) return;
+    const ring = this.drawingRing;
+    const onComplete = this.onDrawingComplete;
+    this.cancelPolygonDrawing();
+    if (ring.length >= 6) onComplete?.(ring);
+  }
+
+  private handleKeyDown(e: KeyboardEvent) {
+    if (e.key === 'Escape' && this.drawingRing) this.cancelPolygonDrawing();
+  }
+
   public async generateBorders() {
     try {
       const result = await workerManager.sendMessage('GENERATE_BORDERS', {});
@@ -89,7 +154,7 @@ export class MapEngine {
   }
 
   private handleMouseDown() {
-    if (this.hoveredPrecinctId !== null) {
+    if (this.hoveredPrecinctId !== null && !this.drawingRing) {
       this.brushManager.handleMouseDown(this.hoveredPrecinctId);
     }
   }
@@ -104,6 +169,15 @@ export class MapEngine {
   }
 
   private handleClick(e: MouseEvent) {
+    if (this.drawingRing) {
+      // The two clicks of a double-click land on the same spot; keep one vertex
+      const [mx, my] = this.toMapSpace(e);
+      const n = this.drawingRing.length;
+      if (n === 0 || this.drawingRing[n - 2] !== mx || this.drawingRing[n - 1] !== my) this.drawingRing.push(mx, my);
+      this.render();
+      return;
+    }
+
     const rect = this.canvas!.getBoundingClientRect();
     const x = e.clientX - rect.left;
     const y = e.clientY - rect.top;
@@ -133,6 +207,8 @@ export class MapEngine {
     canvas.addEventListener('mouseleave', this.handleMouseLeave);
     canvas.addEventListener('wheel', this.handleWheel.bind(this), { passive: false });
     canvas.addEventListener('click', this.handleClick);
+    canvas.addEventListener('dblclick', this.handleDoubleClick);
+    window.addEventListener('keydown', this.handleKeyDown);
     
     this.resize();
     window.addEventListener('resize', () => this.resize());
@@ -190,132 +266,159 @@ export class MapEngine {
     this.animationFrameId = requestAnimationFrame(() => this.loop());
   }
 
-  public async loadInitialData() {
+  public async loadInitialData(seed: number = DEFAULT_SEED) {
     try {
       console.log("Loading initial data...");
-      const startTime = performance.now();
-      
-      let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-      
-      // Stream data from generator
-      const generator = DataGenerator.loadUSDataGenerator();
-      
-      for await (const { features, bounds } of generator) {
-        // Update bounds
-        minX = Math.min(minX, bounds[0]);
-        minY = Math.min(minY, bounds[1]);
-        maxX = Math.max(maxX, bounds[2]);
-        maxY = Math.max(maxY, bounds[3]);
-
-        features.forEach((feature) => {
-           const id = Number(feature.id);
-           
-           let coords: number[] = [];
-           const geometry = feature.geometry;
+      await this.ingest(DataGenerator.loadUSDataGenerator(seed), seed, { kind: 'generated', seed });
+    } catch (e) {
+      console.error("Failed to load US data:", e);
+    }
+  }
 
-           if (geometry.type === 'Polygon') {
-             coords = (geometry.coordinates[0] as number[][]).flat();
-           } else if (geometry.type === 'MultiPolygon') {
-             const multiPoly = geometry as MultiPolygon;
-             coords = (multiPoly.coordinates[0][0] as number[][]).flat();
-           }
+  // Replaces the loaded precincts with a real GeoJSON/TopoJSON precinct file; throws when the file can't be read
+  public async loadPrecinctFile(data: unknown, name: string, mapping: PrecinctPropertyMapping): Promise<{ loaded: number, skipped: number }> {
+    const collection = toFeatureCollection(data);
+    this.dataStore.clear();
+    await workerManager.sendMessage('RESET_DATA', {});
+    this.baseline = null;
+    this.districtBorders.clear();
+    this.changedPrecincts.clear();
+    this.communityPrecincts.clear();
+    this.highlightedDistricts.clear();
+    this.hoveredPrecinctId = null;
+    this.onPrecinctSelect?.(null);
 
-           const float32Coords = new Float32Array(coords);
-           
-           // Stats from feature properties
-           const pop = feature.properties?.population || 1000;
-           const dem = feature.properties?.demVotes || 0;
-           const rep = feature.properties?.repVotes || 0;
-           const white = feature.properties?.white || 0;
-           const black = feature.properties?.black || 0;
-           const hispanic = feature.properties?.hispanic || 0;
-           const education = feature.properties?.education || 0;
-           const income = feature.properties?.income || 0;
-           
-           const stats = new Int32Array([pop, dem, rep, white, black, hispanic, education, income]); 
-           
-           const stateId = feature.properties?.stateId || 0;
+    await this.ingest(DataGenerator.loadPrecinctFeatures(collection, mapping), DEFAULT_SEED, { kind: 'file', name });
+    const loaded = this.dataSource?.precinctCount ?? 0;
+    return { loaded, skipped: collection.features.length - loaded };
+  }
+
+  // Streams features into the DataStore and worker, then seeds an initial plan.
+  // Generated data gets simulated history; real files keep only their current stats.
+  private async ingest(
+    generator: AsyncGenerator<{ features: Feature<Polygon | MultiPolygon>[], bounds: [number, number, number, number] }>,
+    seed: number,
+    source: Pick<DataSourceIdentity, 'kind' | 'seed' | 'name'>
+  ) {
+    const startTime = performance.now();
+    const synthetic = source.kind === 'generated';
+    
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    
+    for await (const { features, bounds } of generator) {
+      // Update bounds
+      minX = Math.min(minX, bounds[0]);
+      minY = Math.min(minY, bounds[1]);
+      maxX = Math.max(maxX, bounds[2]);
+      maxY = Math.max(maxY, bounds[3]);
+
+      features.forEach((feature) => {
+         const id = Number(feature.id);
+         
+         // Every part and hole is kept: islands and enclaves render, hit-test and union like the mainland
+         const geometry = feature.geometry;
+         const shape = flattenPolygons(geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates);
+         
+         // Stats from feature properties
+         const pop = feature.properties?.population || (synthetic ? 1000 : 0);
+         const dem = feature.properties?.demVotes || 0;
+         const rep = feature.properties?.repVotes || 0;
+         const white = feature.properties?.white || 0;
+         const black = feature.properties?.black || 0;
+         const hispanic = feature.properties?.hispanic || 0;
+         const education = feature.properties?.education || 0;
+         const income = feature.properties?.income || 0;
+         
+         const stats = new Float64Array([pop, dem, rep, white, black, hispanic, education, income]); // Rates and dollar amounts keep their fractions
+         
+         const stateId = feature.properties?.stateId || 0;
+         
+         // Simulate History (1980-2015)
+         const random = createRng(deriveSeed(seed, id));
+         const history = !synthetic ? [] : [1980, 1985, 1990, 1995, 2000, 2005, 2010, 2015].map(year => {
+           const yearsBack = 2020 - year;
+           const growthFactor = 1 - (random() * 0.02 - 0.005) * yearsBack;
            
-           // Simulate History (1980-2015)
-           const history = [1980, 1985, 1990, 1995, 2000, 2005, 2010, 2015].map(year => {
-             const yearsBack = 2020 - year;
-             const growthFactor = 1 - (Math.random() * 0.02 - 0.005) * yearsBack;
-             
-             return {
-               year,
-               population: Math.round(pop * growthFactor),
-               demVotes: Math.round(dem * growthFactor * (1 + (Math.random() * 0.1 - 0.05))),
-               repVotes: Math.round(rep * growthFactor * (1 + (Math.random() * 0.1 - 0.05))),
-               white: Math.round(white * growthFactor),
-               black: Math.round(black * growthFactor),
-               hispanic: Math.round(hispanic * growthFactor * (1 - yearsBack * 0.015)),
-               education: education * (1 - yearsBack * 0.01),
-               income: income * (1 - yearsBack * 0.02)
-             };
-           });
-
-           const countyId = feature.properties?.countyId;
-           this.dataStore.addPrecinct(id, float32Coords, stats, stateId, stateId, countyId, history);
-        });
-      }
+           return {
+             year,
+             population: Math.round(pop * growthFactor),
+             demVotes: Math.round(dem * growthFactor * (1 + (random() * 0.1 - 0.05))),
+             repVotes: Math.round(rep * growthFactor * (1 + (random() * 0.1 - 0.05))),
+             white: Math.round(white * growthFactor),
+             black: Math.round(black * growthFactor),
+             hispanic: Math.round(hispanic * growthFactor * (1 - yearsBack * 0.015)),
+             education: education * (1 - yearsBack * 0.01),
+             income: income * (1 - yearsBack * 0.02)
+           };
+         });
+
+         const countyId = feature.properties?.countyId;
+         this.dataStore.addPrecinct(id, shape, stats, stateId, stateId, countyId, history, feature.properties?.geoid);
+      });
+    }
 
-      // Set transform based on bounds
-      const dataWidth = maxX - minX;
-      const dataHeight = maxY - minY;
+    // Set transform based on bounds
+    const dataWidth = maxX - minX;
+    const dataHeight = maxY - minY;
+    
+    if (this.canvas) {
+      const scaleX = this.canvas.width / dataWidth;
+      const scaleY = this.canvas.height / dataHeight;
+      const scale = Math.min(scaleX, scaleY) * 0.9; // 90% fit
       
-      if (this.canvas) {
-        const scaleX = this.canvas.width / dataWidth;
-        const scaleY = this.canvas.height / dataHeight;
-        const scale = Math.min(scaleX, scaleY) * 0.9; // 90% fit
-        
-        const centerX = (minX + maxX) / 2;
-        const centerY = (minY + maxY) / 2;
-        
-        this.transform = {
-          k: scale,
-          x: this.canvas.width / 2 - centerX * scale,
-          y: this.canvas.height / 2 - centerY * scale
-        };
-      }
-
-      console.log(`Processed all features in ${performance.now() - startTime}ms. Rendering...`);
+      const centerX = (minX + maxX) / 2;
+      const centerY = (minY + maxY) / 2;
       
-      // Send to worker in chunks to avoid freezing UI
-      const precincts = Array.from(this.dataStore.getAllPrecincts());
-      const BATCH_SIZE = 2000;
+      this.transform = {
+        k: scale,
+        x: this.canvas.width / 2 - centerX * scale,
+        y: this.canvas.height / 2 - centerY * scale
+      };
+    }
+
+    console.log(`Processed all features in ${performance.now() - startTime}ms. Rendering...`);
+    
+    // Send to worker in chunks to avoid freezing UI
+    const precincts = Array.from(this.dataStore.getAllPrecincts());
+    this.dataSource = {
+      ...source,
+      precinctCount: precincts.length,
+      fingerprint: datasetFingerprint(precincts.map(p => ({ id: p.id, population: p.stats[0] })))
+    };
+    const BATCH_SIZE = 2000;
+    
+    console.log(`Sending ${precincts.length} precincts to worker in batches of ${BATCH_SIZE}...`);
+    
+    for (let i = 0; i < precincts.length; i += BATCH_SIZE) {
+      const batch = precincts.slice(i, i + BATCH_SIZE).map(p => ({
+        id: p.id,
+        stats: Array.from(p.stats),
+        districtId: p.districtId,
+        stateId: p.stateId,
+        countyId: p.countyId,
+        coords: p.coords, // Send Float32Array directly (Transferable-ish)
+        rings: p.rings,
+        parts: p.parts,
+        history: p.history?.length ? p.history : undefined // No slopes or forecasts without history
+      }));
       
-      console.log(`Sending ${precincts.length} precincts to worker in batches of ${BATCH_SIZE}...`);
+      workerManager.sendMessage('LOAD_DATA', { precincts: batch });
       
-      for (let i = 0; i < precincts.length; i += BATCH_SIZE) {
-        const batch = precincts.slice(i, i + BATCH_SIZE).map(p => ({
-          id: p.id,
-          stats: Array.from(p.stats),
-          districtId: p.districtId,
-          stateId: p.stateId,
-          coords: p.coords, // Send Float32Array directly (Transferable-ish)
-          history: p.history
-        }));
-        
-        workerManager.sendMessage('LOAD_DATA', { precincts: batch });
-        
-        // Yield to main thread
-        if (i % (BATCH_SIZE * 2) === 0) {
-          await new Promise(r => setTimeout(r, 0));
-        }
+      // Yield to main thread
+      if (i % (BATCH_SIZE * 2) === 0) {
+        await new Promise(r => setTimeout(r, 0));
       }
-      console.log("All data sent to worker.");
-      
-      console.log("All data sent to worker.");
-      
-      // Auto-redistrict on load to ensure we have correct number of districts (435)
-      // and they are contiguous (seedAndGrow).
-      console.log("Triggering initial auto-redistrict...");
-      await this.startAutoRedistrict([], { runs: 1, isAuto: false });
-      
-      this.render();
-    } catch (e) {
-      console.error("Failed to load US data:", e);
     }
+    console.log("All data sent to worker.");
+    
+    console.log("All data sent to worker.");
+    
+    // Auto-redistrict on load to ensure we have correct number of districts (435)
+    // and they are contiguous (seedAndGrow).
+    console.log("Triggering initial auto-redistrict...");
+    await this.startAutoRedistrict([], { runs: 1, isAuto: false, seed });
+    
+    this.render();
   }
 
   public render() {
@@ -348,22 +451,29 @@ export class MapEngine {
 
     // Iterate precincts from DataStore
     for (const precinct of this.dataStore.getAllPrecincts()) {
-      const coords = precinct.coords;
+      const { coords, rings } = precinct;
       if (coords.length > 0) {
         ctx.beginPath();
         hitCtx.beginPath();
         
-        ctx.moveTo(coords[0], coords[1]);
-        hitCtx.moveTo(coords[0], coords[1]);
-        
-        for (let i = 2; i < coords.length; i += 2) {
-          ctx.lineTo(coords[i], coords[i+1]);
-          hitCtx.lineTo(coords[i], coords[i+1]);
+        // One subpath per ring; even-odd filling leaves holes empty
+        for (let r = 0; r < rings.length; r++) {
+          const start = rings[r];
+          const end = r + 1 < rings.length ? rings[r + 1] : coords.length;
+          if (end - start < 2) continue;
+
+          ctx.moveTo(coords[start], coords[start + 1]);
+          hitCtx.moveTo(coords[start], coords[start + 1]);
+          
+          for (let i = start + 2; i < end; i += 2) {
+            ctx.lineTo(coords[i], coords[i+1]);
+            hitCtx.lineTo(coords[i], coords[i+1]);
+          }
+          
+          ctx.closePath();
+          hitCtx.closePath();
         }
         
-        ctx.closePath();
-        hitCtx.closePath();
-        
         // Draw Main
         if (this.viewMode === 'district') {
           // Color based on district
@@ -400,13 +510,28 @@ export class MapEngine {
           }
         }
         
-        ctx.fill();
-        ctx.fill();
+        ctx.fill('evenodd');
+        ctx.fill('evenodd');
         // ctx.stroke(); // Hide precinct borders for cleaner look
+
+        if (this.highlightedDistricts.has(precinct.districtId)) {
+          ctx.fillStyle = 'rgba(250, 204, 21, 0.45)'; // yellow-400 wash
+          ctx.fill('evenodd');
+        }
+
+        if (this.changedPrecincts.has(precinct.id)) {
+          ctx.fillStyle = 'rgba(217, 70, 239, 0.6)'; // fuchsia-500
+          ctx.fill('evenodd');
+        }
+
+        if (this.communityPrecincts.has(precinct.id)) {
+          ctx.fillStyle = 'rgba(34, 211, 238, 0.5)'; // cyan-400
+          ctx.fill('evenodd');
+        }
         
         // Draw Hit
         hitCtx.fillStyle = this.idToColor(precinct.id);
-        hitCtx.fill();
+        hitCtx.fill('evenodd');
       }
     }
 
@@ -437,15 +562,31 @@ export class MapEngine {
       ctx.stroke();
     });
 
+    // Polygon being drawn
+    if (this.drawingRing && this.drawingRing.length >= 2) {
+      const ring = this.drawingRing;
+      ctx.strokeStyle = '#22d3ee'; // cyan-400
+      ctx.lineWidth = 2 / k;
+      ctx.setLineDash([6 / k, 4 / k]);
+      ctx.beginPath();
+      ctx.moveTo(ring[0], ring[1]);
+      for (let i = 2; i < ring.length; i += 2) ctx.lineTo(ring[i], ring[i + 1]);
+      ctx.closePath();
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
     ctx.restore();
     hitCtx.restore();
   }
 
-  public async startAutoRedistrict(constraints: Constraint[] = [], config: { runs: number; isAuto: boolean } = { runs: 1, isAuto: false }) {
+  public async startAutoRedistrict(constraints: Constraint[] = [], config: RedistrictOptions = { runs: 1, isAuto: false }) {
     try {
-      const messageType = constraints.length > 0 ? 'SIMULATED_ANNEALING' : 'AUTO_REDISTRICT';
+      // Annealing only has something to optimise when there is a constraint or penalty term
+      const hasObjectives = constraints.length > 0 || (config.countySplitWeight ?? 0) > 0 || (config.opportunityGoals?.length ?? 0) > 0 || (config.retentionWeight ?? 0) > 0 || ((config.communitySplitWeight ?? 0) > 0 && (config.communities?.length ?? 0) > 0);
+      const messageType = hasObjectives ? 'SIMULATED_ANNEALING' : 'AUTO_REDISTRICT';
       
-      const result = await workerManager.sendMessage(messageType, { constraints, runs: config.runs, isAuto: config.isAuto });
+      const result = await workerManager.sendMessage(messageType, { constraints, runs: config.runs, isAuto: config.isAuto, contiguous: config.contiguous, seed: config.seed, schedule: config.schedule, countySplitWeight: config.countySplitWeight, opportunityGoals: config.opportunityGoals, vra: config.vra, projection: config.projection, retentionWeight: config.retentionWeight, communities: config.communities, communitySplitWeight: config.communitySplitWeight });
       
       const updates = result as { id: number, districtId: number }[];
       updates.forEach(u => {
@@ -460,6 +601,97 @@ export class MapEngine {
     }
   }
 
+  // Non-dominated annealing runs per state; nothing is applied until applyAssignment
+  public async exploreParetoFront(constraints: Constraint[] = [], config: ParetoOptions = { runs: 20, isAuto: false }): Promise<ParetoFront[]> {
+    try {
+      const result = await workerManager.sendMessage('PARETO_FRONT', { constraints, runs: config.runs, contiguous: config.contiguous, seed: config.seed, schedule: config.schedule, countySplitWeight: config.countySplitWeight, objectives: config.objectives, stateIds: config.stateIds, opportunityGoals: config.opportunityGoals, vra: config.vra, projection: config.projection, retentionWeight: config.retentionWeight, communities: config.communities, communitySplitWeight: config.communitySplitWeight });
+      return result as ParetoFront[];
+    } catch (e) {
+      console.error("Pareto exploration failed:", e);
+      return [];
+    }
+  }
+
+  // Reference plan for core retention in RUN_ANALYSIS and the annealer; null clears it
+  public async setBaseline(assignment: Map<number, number> | null) {
+    try {
+      const updates = assignment ? Array.from(assignment, ([id, districtId]) => ({ id, districtId })) : undefined;
+      await workerManager.sendMessage('SET_BASELINE', { updates, clear: assignment === null });
+      this.baseline = assignment;
+    } catch (e) {
+      console.error("Set baseline failed:", e);
+    }
+  }
+
+  public async applyAssignment(updates: { id: number, districtId: number }[]) {
+    updates.forEach(u => {
+      const precinct = this.dataStore.getPrecinct(u.id);
+      if (precinct) {
+        precinct.districtId = u.districtId;
+      }
+    });
+
+    try {
+      await workerManager.sendMessage('ASSIGN_DISTRICTS', { updates });
+    } catch (e) {
+      console.error("Assign districts failed:", e);
+    }
+  }
+
+  public async savePlan(parts: { name: string, constraints: Constraint[], settings: RedistrictOptions }): Promise<PlanDocument> {
+    let analysis: PlanDocument['analysis'] = null;
+    try {
+      const result = await workerManager.sendMessage('RUN_ANALYSIS', { communities: parts.settings.communities });
+      const { analysis: districts, states } = result as { analysis: DistrictStats[], states: StateAnalysis[] };
+      analysis = { districts, states };
+    } catch (e) {
+      console.error("Analysis snapshot failed:", e);
+    }
+
+    return createPlanDocument({
+      ...parts,
+      dataSource: this.dataSource,
+      assignment: Array.from(this.dataStore.getAssignment()),
+      baseline: this.baseline ? Array.from(this.baseline) : null,
+      analysis
+    });
+  }
+
+  // Applies a saved plan's assignment and baseline; the caller restores constraints and settings from the returned document
+  public async loadPlan(input: unknown): Promise<{ plan: PlanDocument, warnings: string[] }> {
+    const plan = migratePlanDocument(input);
+    const warnings: string[] = [];
+
+    const source = plan.dataSource;
+    if (source && this.dataSource && (source.kind !== this.dataSource.kind || source.fingerprint !== this.dataSource.fingerprint)) {
+      warnings.push(`Saved against different precinct data (${source.precinctCount.toLocaleString()} precincts, ${source.fingerprint}); assignments were matched by id`);
+    }
+
+    const known = plan.assignment.filter(([id]) => this.dataStore.getPrecinct(id));
+    if (known.length < plan.assignment.length) {
+      warnings.push(`${(plan.assignment.length - known.length).toLocaleString()} precincts in the plan are not loaded and were skipped`);
+    }
+    const missing = this.dataStore.getAssignment().size - new Set(known.map(([id]) => id)).size;
+    if (missing > 0) {
+      warnings.push(`${missing.toLocaleString()} loaded precincts are not in the plan and keep their current district`);
+    }
+
+    await this.applyAssignment(known.map(([id, districtId]) => ({ id, districtId })));
+    await this.setBaseline(plan.baseline ? new Map(plan.baseline) : null);
+    this.render();
+    return { plan, warnings };
+  }
+
+  // District boundaries un-projected to lon/lat, with the RUN_ANALYSIS district stats as properties
+  // `analysisOptions` should match what the stats panel shows, so the exported columns agree with it
+  public async exportDistricts(format: DistrictExportFormat, name?: string, analysisOptions: AnalysisOptions = {}): Promise<string> {
+    const borders = await workerManager.sendMessage('GENERATE_BORDERS', { smooth: false }) as [number, Feature<Polygon | MultiPolygon>][];
+    const { analysis } = await workerManager.sendMessage('RUN_ANALYSIS', analysisOptions) as { analysis: DistrictStats[] };
+    const projection = DataGenerator.createProjection();
+    const collection = districtFeatureCollection(borders, analysis, point => projection.invert?.(point) ?? null);
+    return serializeDistricts(collection, format, name);
+  }
+
   public async runAnalysis() {
     try {
       const result = await workerManager.sendMessage('RUN_ANALYSIS', {});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { AdjacencyGraph } from './adjacency';
+import { flattenPolygons } from './geometry';
+
+// Axis-aligned square as a flat ring
+const square = (x: number, y: number, size = 10) => [x, y, x + size, y, x + size, y + size, x, y + size];
+
+describe('AdjacencyGraph', () => {
+  it('separates rook neighbours from corner-only queen contacts', () => {
+    const graph = new AdjacencyGraph();
+    graph.addPrecinct(1, square(0, 0));
+    graph.addPrecinct(2, square(10, 0));
+    graph.addPrecinct(3, square(10, 10)); // Touches 1 only at (10, 10)
+
+    expect(graph.neighbors(1).map(n => n.id)).toEqual([2]);
+    expect(graph.neighbors(1, 'queen').map(n => n.id).sort()).toEqual([2, 3]);
+    expect(graph.sharedBorder(1, 2)).toBeCloseTo(10);
+    expect(graph.sharedBorder(2, 1)).toBeCloseTo(10);
+  });
+
+  it('matches borders split at different vertices on each side', () => {
+    const graph = new AdjacencyGraph();
+    graph.addPrecinct(1, square(0, 0, 20));
+    // Two precincts along 1's right edge; 1 has no vertex at (20, 10)
+    graph.addPrecinct(2, square(20, 0));
+    graph.addPrecinct(3, square(20, 10));
+
+    expect(graph.sharedBorder(1, 2)).toBeCloseTo(10);
+    expect(graph.sharedBorder(1, 3)).toBeCloseTo(10);
+  });
+
+  it('bridges slivers narrower than the tolerance', () => {
+    const graph = new AdjacencyGraph(0.05);
+    graph.addPrecinct(1, square(0, 0));
+    graph.addPrecinct(2, [10.02, 0, 20, 0, 20, 10, 10.02, 10]);
+
+    expect(graph.neighbors(1).map(n => n.id)).toEqual([2]);
+  });
+
+  it('exposes plain neighbour lists for the algorithms', () => {
+    const graph = new AdjacencyGraph();
+    graph.addPrecinct(1, square(0, 0));
+    graph.addPrecinct(2, square(10, 0));
+    graph.addPrecinct(3, square(30, 0)); // Isolated
+
+    const map = graph.toMap();
+    expect(map.get(1)).toEqual([2]);
+    expect(map.get(3)).toEqual([]);
+  });
+
+  it('finds neighbours across holes and island parts', () => {
+    const graph = new AdjacencyGraph();
+    // A square with a hole filled by precinct 2, and an island part beside precinct 3
+    const donut = flattenPolygons([
+      [[[0, 0], [30, 0], [30, 30], [0, 30]], [[10, 10], [10, 20], [20, 20], [20, 10]]],
+      [[[40, 0], [50, 0], [50, 10], [40, 10]]]
+    ]);
+    graph.addPrecinct(1, donut.coords, donut.rings);
+    graph.addPrecinct(2, square(10, 10));
+    graph.addPrecinct(3, square(50, 0));
+
+    expect(graph.sharedBorder(1, 2)).toBeCloseTo(40);
+    expect(graph.sharedBorder(1, 3)).toBeCloseTo(10);
+  });
+});
@@ -0,0 +1,197 @@
+export type AdjacencyMode = 'rook' | 'queen';
+
+export interface Neighbor {
+  id: number;
+  sharedLength: number; // Length of common border in canvas units (0 for corner-only contacts)
+}
+
+// Incrementally built precinct adjacency graph.
+// Rook neighbours share a stretch of border longer than `tolerance`; queen neighbours
+// additionally include precincts that only touch at a corner. Edges are matched by
+// collinear overlap rather than identical vertices, because the Voronoi subdivision in
+// DataGenerator and the county outlines it is clipped against split the same border
+// at different points and leave slivers a fraction of a unit wide.
+export class AdjacencyGraph {
+  private tolerance: number;
+  private cellSize: number;
+
+  // Segment store: flat [x1, y1, x2, y2] plus owning precinct
+  private segmentCoords: number[] = [];
+  private segmentOwners: number[] = [];
+  private segmentGrid = new Map<number, number[]>(); // grid cell -> segment indices
+  private vertexOwners = new Map<number, number[]>(); // snapped vertex -> precinct ids
+
+  private shared = new Map<number, Map<number, number>>(); // id -> neighbourId -> shared length
+  private corners = new Map<number, Set<number>>(); // id -> ids touching at a vertex
+
+  constructor(tolerance = 0.05, cellSize = 2) {
+    this.tolerance = tolerance;
+    this.cellSize = cellSize;
+  }
+
+  // `rings` are start offsets into coords for multi-ring precincts (islands, holes); one ring when omitted
+  public addPrecinct(id: number, coords: ArrayLike<number>, rings: ArrayLike<number> = [0]) {
+    if (!this.shared.has(id)) this.shared.set(id, new Map());
+    if (!this.corners.has(id)) this.corners.set(id, new Set());
+
+    // Match against already indexed precincts first, then index our own segments
+    const newSegments: number[][] = [];
+    for (let r = 0; r < rings.length; r++) {
+      const start = rings[r] / 2;
+      const vertexCount = (r + 1 < rings.length ? rings[r + 1] : coords.length) / 2 - start;
+      if (vertexCount < 2) continue;
+
+      for (let i = 0; i < vertexCount; i++) {
+        const x1 = coords[(start + i) * 2];
+        const y1 = coords[(start + i) * 2 + 1];
+        const next = start + (i + 1) % vertexCount;
+        const x2 = coords[next * 2];
+        const y2 = coords[next * 2 + 1];
+
+        this.touchVertex(id, x1, y1);
+        if (x1 === x2 && y1 === y2) continue;
+
+        this.matchSegment(id, x1, y1, x2, y2);
+        newSegments.push([x1, y1, x2, y2]);
+      }
+    }
+
+    newSegments.forEach(([x1, y1, x2, y2]) => this.indexSegment(id, x1, y1, x2, y2));
+  }
+
+  public neighbors(id: number, mode: AdjacencyMode = 'rook'): Neighbor[] {
+    const result: Neighbor[] = [];
+    const lengths = this.shared.get(id);
+    lengths?.forEach((length, neighborId) => {
+      if (length > this.tolerance) result.push({ id: neighborId, sharedLength: length });
+    });
+
+    if (mode === 'queen') {
+      this.corners.get(id)?.forEach(neighborId => {
+        const length = lengths?.get(neighborId) ?? 0;
+        if (length <= this.tolerance) result.push({ id: neighborId, sharedLength: length });
+      });
+    }
+    return result;
+  }
+
+  public sharedBorder(a: number, b: number): number {
+    return this.shared.get(a)?.get(b) ?? 0;
+  }
+
+  public has(id: number): boolean {
+    return this.shared.has(id);
+  }
+
+  public ids(): IterableIterator<number> {
+    return this.shared.keys();
+  }
+
+  // Plain neighbour lists, as consumed by the algorithms
+  public toMap(mode: AdjacencyMode = 'rook'): Map<number, number[]> {
+    const map = new Map<number, number[]>();
+    this.shared.forEach((_, id) => {
+      map.set(id, this.neighbors(id, mode).map(n => n.id));
+    });
+    return map;
+  }
+
+  public clear() {
+    this.segmentCoords = [];
+    this.segmentOwners = [];
+    this.segmentGrid.clear();
+    this.vertexOwners.clear();
+    this.shared.clear();
+    this.corners.clear();
+  }
+
+  private cellKey(cx: number, cy: number): number {
+    return (cx + 32768) * 65536 + (cy + 32768);
+  }
+
+  private forEachCell(x1: number, y1: number, x2: number, y2: number, fn: (key: number) => void) {
+    const tol = this.tolerance;
+    const minCX = Math.floor((Math.min(x1, x2) - tol) / this.cellSize);
+    const maxCX = Math.floor((Math.max(x1, x2) + tol) / this.cellSize);
+    const minCY = Math.floor((Math.min(y1, y2) - tol) / this.cellSize);
+    const maxCY = Math.floor((Math.max(y1, y2) + tol) / this.cellSize);
+    for (let cx = minCX; cx <= maxCX; cx++) {
+      for (let cy = minCY; cy <= maxCY; cy++) {
+        fn(this.cellKey(cx, cy));
+      }
+    }
+  }
+
+  private touchVertex(id: number, x: number, y: number) {
+    const qx = Math.round(x / this.tolerance);
+    const qy = Math.round(y / this.tolerance);
+    const key = qx * 2097152 + qy;
+
+    const owners = this.vertexOwners.get(key);
+    if (!owners) {
+      this.vertexOwners.set(key, [id]);
+      return;
+    }
+    if (owners.includes(id)) return;
+
+    owners.forEach(other => {
+      this.corners.get(other)?.add(id);
+      this.corners.get(id)!.add(other);
+    });
+    owners.push(id);
+  }
+
+  private indexSegment(id: number, x1: number, y1: number, x2: number, y2: number) {
+    const index = this.segmentOwners.length;
+    this.segmentCoords.push(x1, y1, x2, y2);
+    this.segmentOwners.push(id);
+    this.forEachCell(x1, y1, x2, y2, key => {
+      const bucket = this.segmentGrid.get(key);
+      if (bucket) bucket.push(index);
+      else this.segmentGrid.set(key, [index]);
+    });
+  }
+
+  private matchSegment(id: number, x1: number, y1: number, x2: number, y2: number) {
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    const length = Math.sqrt(dx * dx + dy * dy);
+    const ux = dx / length;
+    const uy = dy / length;
+    const tol = this.tolerance;
+    const seen = new Set<number>();
+
+    this.forEachCell(x1, y1, x2, y2, key => {
+      const bucket = this.segmentGrid.get(key);
+      if (!bucket) return;
+
+      for (const s of bucket) {
+        if (seen.has(s)) continue;
+        seen.add(s);
+
+        const owner = this.segmentOwners[s];
+        if (owner === id) continue;
+
+        const o = s * 4;
+        const ax = this.segmentCoords[o] - x1;
+        const ay = this.segmentCoords[o + 1] - y1;
+        const bx = this.segmentCoords[o + 2] - x1;
+        const by = this.segmentCoords[o + 3] - y1;
+
+        // Both endpoints of the other segment must lie on our line (within tolerance)
+        if (Math.abs(ax * uy - ay * ux) > tol || Math.abs(bx * uy - by * ux) > tol) continue;
+
+        // Overlap of the two projections onto our direction
+        const ta = ax * ux + ay * uy;
+        const tb = bx * ux + by * uy;
+        const overlap = Math.min(length, Math.max(ta, tb)) - Math.max(0, Math.min(ta, tb));
+        if (overlap <= tol) continue;
+
+        const mine = this.shared.get(id)!;
+        mine.set(owner, (mine.get(owner) ?? 0) + overlap);
+        const theirs = this.shared.get(owner)!;
+        theirs.set(id, (theirs.get(id) ?? 0) + overlap);
+      }
+    });
+  }
+}
@@ -0,0 +1,268 @@
+import { describe, expect, it } from 'vitest';
+import { recomChain, seedAndGrow, simulatedAnnealing } from './algorithms';
+import type { Constraint } from './types';
+
+// n x n grid of precincts with rook adjacency; ids are row-major from 1
+function grid(n: number, district: (row: number, col: number) => number, population = () => 100) {
+  const precincts: { id: number; districtId: number; population: number; stats: number[]; x: number; y: number }[] = [];
+  const adjacency = new Map<number, number[]>();
+  for (let row = 0; row < n; row++) {
+    for (let col = 0; col < n; col++) {
+      const id = row * n + col + 1;
+      const pop = population();
+      precincts.push({ id, districtId: district(row, col), population: pop, stats: [pop, 0, 0, 0, 0, 0, 0, 0], x: col, y: row });
+      const neighbors: number[] = [];
+      if (row > 0) neighbors.push(id - n);
+      if (row < n - 1) neighbors.push(id + n);
+      if (col > 0) neighbors.push(id - 1);
+      if (col < n - 1) neighbors.push(id + 1);
+      adjacency.set(id, neighbors);
+    }
+  }
+  return { precincts, adjacency };
+}
+
+function isContiguous(assignment: Map<number, number>, adjacency: Map<number, number[]>, district: number): boolean {
+  const members = Array.from(assignment).filter(([, d]) => d === district).map(([id]) => id);
+  if (members.length === 0) return false;
+  const seen = new Set([members[0]]);
+  const queue = [members[0]];
+  while (queue.length > 0) {
+    for (const n of adjacency.get(queue.pop()!) ?? []) {
+      if (!seen.has(n) && assignment.get(n) === district) {
+        seen.add(n);
+        queue.push(n);
+      }
+    }
+  }
+  return seen.size === members.length;
+}
+
+describe('simulatedAnnealing with preserveContiguity', () => {
+  it('keeps every district connected and non-empty', () => {
+    const { precincts, adjacency } = grid(6, (_, col) => (col < 2 ? 1 : col < 4 ? 2 : 3), () => 100);
+    // Unbalance the start so the annealer has to move precincts
+    precincts.forEach(p => { if (p.districtId === 1) p.stats[0] = p.population = 300; });
+
+    const { assignment } = simulatedAnnealing(precincts, { districtCount: 3, adjacency, preserveContiguity: true, seed: 7 });
+    for (let d = 1; d <= 3; d++) {
+      expect(isContiguous(assignment, adjacency, d)).toBe(true);
+    }
+  });
+
+  it('lets an island precinct with no donor-side neighbours leave its district', () => {
+    const mk = (id: number, districtId: number, pop: number) => ({ id, districtId, population: pop, stats: [pop, 0, 0, 0, 0, 0, 0, 0] });
+    const precincts = [mk(1, 1, 5), mk(2, 1, 5), mk(3, 2, 10), mk(4, 2, 10), mk(5, 2, 5)];
+    // Precinct 5 belongs to district 2 but only touches district 1
+    const adjacency = new Map([[1, [2, 5]], [2, [1, 3]], [3, [2, 4]], [4, [3]], [5, [1]]]);
+
+    const { assignment } = simulatedAnnealing(precincts, { districtCount: 2, adjacency, preserveContiguity: true, seed: 1 });
+    expect(assignment.get(5)).toBe(1);
+  });
+
+  it('never empties the donor district', () => {
+    const mk = (id: number, districtId: number, pop: number) => ({ id, districtId, population: pop, stats: [pop, 0, 0, 0, 0, 0, 0, 0] });
+    // District 2 is a single precinct; merging it into district 1 would look cheaper to a naive cost
+    const precincts = [mk(1, 1, 10), mk(2, 1, 10), mk(3, 2, 1)];
+    const adjacency = new Map([[1, [2]], [2, [1, 3]], [3, [2]]]);
+
+    const { assignment } = simulatedAnnealing(precincts, { districtCount: 2, adjacency, preserveContiguity: true, seed: 3 });
+    expect(assignment.get(3)).toBe(2);
+  });
+});
+
+describe('simulatedAnnealing running totals', () => {
+  it('ends with the same cost terms as a from-scratch recount', () => {
+    const { precincts } = grid(6, (row) => (row < 2 ? 1 : row < 4 ? 2 : 3), () => 100);
+    const counties = new Map<number, number>();
+    precincts.forEach((p, i) => {
+      p.population = p.stats[0] = 50 + (i * 37) % 100;
+      p.stats[1] = (i * 53) % 70; // dem
+      p.stats[2] = 70 - p.stats[1]; // rep
+      counties.set(p.id, Math.floor(p.x / 3) + 2 * Math.floor(p.y / 3));
+    });
+    const input = precincts.map(p => ({ ...p, countyId: counties.get(p.id) }));
+    const constraint = { id: 'c', metric: 'demVotes' as const, operator: '>' as const, value: 400, targetPercent: 50 };
+
+    const { assignment, cost, breakdown } = simulatedAnnealing(input, {
+      districtCount: 3, constraints: [constraint], countySplitWeight: 2, seed: 11, schedule: { iterations: 3000 }
+    });
+
+    const pop = new Map<number, number>();
+    const dem = new Map<number, number>();
+    const countyDistricts = new Map<number, Set<number>>();
+    input.forEach(p => {
+      const d = assignment.get(p.id)!;
+      pop.set(d, (pop.get(d) ?? 0) + p.stats[0]);
+      dem.set(d, (dem.get(d) ?? 0) + p.stats[1]);
+      if (!countyDistricts.has(p.countyId!)) countyDistricts.set(p.countyId!, new Set());
+      countyDistricts.get(p.countyId!)!.add(d);
+    });
+    const ideal = input.reduce((sum, p) => sum + p.stats[0], 0) / 3;
+    const populationCost = Array.from(pop.values()).reduce((sum, v) => sum + Math.abs(v - ideal) / ideal, 0);
+    const splits = Array.from(countyDistricts.values()).reduce((sum, ds) => sum + ds.size - 1, 0);
+    const meeting = Array.from(dem.values()).filter(v => v > constraint.value).length;
+    const constraintCost = Math.abs((meeting / pop.size) * 100 - constraint.targetPercent) * 10;
+
+    expect(breakdown.population).toBeCloseTo(populationCost, 9);
+    expect(breakdown.countySplits).toBeCloseTo(2 * splits, 9);
+    expect(breakdown.constraints).toBeCloseTo(constraintCost, 9);
+    expect(cost).toBeCloseTo(breakdown.population + breakdown.countySplits + breakdown.constraints, 9);
+  });
+});
+
+describe('recomChain', () => {
+  it('records the requested number of balanced, contiguous plans', () => {
+    const { precincts, adjacency } = grid(6, (_, col) => Math.floor(col / 2) + 1);
+    const plans = recomChain(precincts, { districtCount: 3, adjacency, seed: 5 }, { samples: 20, populationTolerance: 0.05 });
+
+    expect(plans).toHaveLength(20);
+    plans.forEach(plan => {
+      for (let d = 1; d <= 3; d++) {
+        const population = precincts.filter(p => plan.get(p.id) === d).reduce((sum, p) => sum + p.population, 0);
+        expect(Math.abs(population - 1200) / 1200).toBeLessThanOrEqual(0.05);
+        expect(isContiguous(plan, adjacency, d)).toBe(true);
+      }
+    });
+    // The chain actually moves
+    expect(new Set(plans.map(plan => precincts.map(p => plan.get(p.id)).join())).size).toBeGreaterThan(1);
+  });
+
+  it('throws when burn-in cannot balance the starting plan', () => {
+    const precincts = [{ id: 1, districtId: 1, population: 100 }, { id: 2, districtId: 2, population: 1 }, { id: 3, districtId: 2, population: 1 }];
+    const adjacency = new Map([[1, [2]], [2, [1, 3]], [3, [2]]]);
+
+    expect(() => recomChain(precincts, { districtCount: 2, adjacency, seed: 1 }, { samples: 5, burnInSteps: 50 }))
+      .toThrow(/burn-in failed/);
+  });
+});
+
+describe('seedAndGrow', () => {
+  it('grows contiguous districts that cover every precinct near the ideal population', () => {
+    const { precincts, adjacency } = grid(8, () => 1);
+    const assignment = seedAndGrow(precincts, { districtCount: 4, adjacency, seed: 3 });
+
+    expect(assignment.size).toBe(precincts.length);
+    for (let d = 1; d <= 4; d++) {
+      expect(isContiguous(assignment, adjacency, d)).toBe(true);
+      const population = precincts.filter(p => assignment.get(p.id) === d).reduce((sum, p) => sum + p.population, 0);
+      expect(Math.abs(population - 1600) / 1600).toBeLessThanOrEqual(0.15);
+    }
+  });
+
+  it('assigns unreachable islands to the nearest seed', () => {
+    const { precincts, adjacency } = grid(4, () => 1);
+    precincts.push({ id: 99, districtId: 1, population: 100, stats: [100, 0, 0, 0, 0, 0, 0, 0], x: 10, y: 10 });
+    adjacency.set(99, []);
+
+    const assignment = seedAndGrow(precincts, { districtCount: 2, adjacency, seed: 1 });
+    expect(assignment.get(99)).toBeGreaterThanOrEqual(1);
+    expect(assignment.get(99)).toBeLessThanOrEqual(2);
+  });
+});
+
+describe('annealing schedules', () => {
+  const unbalanced = () => grid(6, (_, col) => (col < 1 ? 1 : 2));
+
+  it('leaves the plan untouched with zero iterations', () => {
+    const { precincts } = unbalanced();
+    const { assignment } = simulatedAnnealing(precincts, { districtCount: 2, seed: 1, schedule: { iterations: 0 } });
+    precincts.forEach(p => expect(assignment.get(p.id)).toBe(p.districtId));
+  });
+
+  it.each(['geometric', 'linear', 'adaptive'] as const)('%s cooling improves an unbalanced plan', type => {
+    const { precincts, adjacency } = unbalanced();
+    const start = simulatedAnnealing(precincts, { districtCount: 2, adjacency, preserveContiguity: true, seed: 2, schedule: { type, iterations: 0 } });
+    const end = simulatedAnnealing(precincts, { districtCount: 2, adjacency, preserveContiguity: true, seed: 2, schedule: { type, iterations: 1500, reheatWindow: 100 } });
+    expect(end.breakdown.population).toBeLessThan(start.breakdown.population / 2);
+  });
+});
+
+describe('county split penalty', () => {
+  // Three counties of two rows each; the vertical starting split cuts all three
+  const counties = () => {
+    const { precincts, adjacency } = grid(6, (_, col) => (col < 3 ? 1 : 2));
+    return { precincts: precincts.map(p => ({ ...p, countyId: Math.floor(p.y / 2) + 1 })), adjacency };
+  };
+  const splits = (assignment: Map<number, number>, precincts: { id: number; countyId: number }[]) => {
+    const byCounty = new Map<number, Set<number>>();
+    precincts.forEach(p => byCounty.set(p.countyId, (byCounty.get(p.countyId) ?? new Set()).add(assignment.get(p.id)!)));
+    return Array.from(byCounty.values()).reduce((sum, d) => sum + d.size - 1, 0);
+  };
+
+  it('reports the weighted starting splits in the breakdown', () => {
+    const { precincts } = counties();
+    const { breakdown } = simulatedAnnealing(precincts, { districtCount: 2, countySplitWeight: 5, seed: 1, schedule: { iterations: 0 } });
+    expect(breakdown.countySplits).toBe(15);
+  });
+
+  it('steers the annealer towards whole counties', () => {
+    const { precincts, adjacency } = counties();
+    const { assignment, breakdown } = simulatedAnnealing(precincts, { districtCount: 2, adjacency, preserveContiguity: true, countySplitWeight: 50, seed: 4 });
+    expect(splits(assignment, precincts)).toBeLessThan(3);
+    expect(breakdown.countySplits).toBe(50 * splits(assignment, precincts));
+  });
+});
+
+describe('opportunity district goal', () => {
+  it('draws a majority-minority district the starting plan lacks', () => {
+    // A Black community in the top-left corner, split evenly by the starting columns
+    const { precincts, adjacency } = grid(6, (_, col) => (col < 2 ? 1 : col < 4 ? 2 : 3));
+    precincts.forEach(p => { p.stats[p.x < 2 && p.y < 3 ? 4 : 3] = p.population; });
+
+    const share = (assignment: Map<number, number>, d: number) => {
+      const members = precincts.filter(p => assignment.get(p.id) === d);
+      return members.reduce((sum, p) => sum + p.stats[4], 0) / members.reduce((sum, p) => sum + p.population, 0);
+    };
+    const start = simulatedAnnealing(precincts, { districtCount: 3, minOpportunityDistricts: 1, seed: 1, schedule: { iterations: 0 } });
+    expect(start.breakdown.opportunity).toBeGreaterThan(0);
+
+    const { assignment, breakdown } = simulatedAnnealing(precincts, { districtCount: 3, adjacency, preserveContiguity: true, minOpportunityDistricts: 1, seed: 1 });
+    expect(breakdown.opportunity).toBe(0);
+    expect([1, 2, 3].some(d => share(assignment, d) > 0.5)).toBe(true);
+  });
+});
+
+describe('margin constraint', () => {
+  it('mixes one-party halves into competitive districts', () => {
+    // Democrats on the left, Republicans on the right, split down the middle
+    const { precincts, adjacency } = grid(4, (_, col) => (col < 2 ? 1 : 2));
+    precincts.forEach(p => { p.stats[p.x < 2 ? 1 : 2] = 100; });
+    const constraints: Constraint[] = [{ id: 'm', metric: 'margin', operator: '<=', value: 20, targetPercent: 100 }];
+
+    const start = simulatedAnnealing(precincts, { districtCount: 2, constraints, seed: 3, schedule: { iterations: 0 } });
+    expect(start.breakdown.constraints).toBe(1000);
+
+    const { breakdown } = simulatedAnnealing(precincts, { districtCount: 2, adjacency, preserveContiguity: true, constraints, seed: 3 });
+    expect(breakdown.constraints).toBe(0);
+  });
+});
+
+describe('core retention penalty', () => {
+  it('pulls the plan back towards the baseline cores', () => {
+    // Balanced column districts against a balanced row baseline: half of everyone is displaced
+    const { precincts, adjacency } = grid(4, (_, col) => (col < 2 ? 1 : 2));
+    const baseline = new Map(precincts.map(p => [p.id, p.y < 2 ? 1 : 2]));
+
+    const start = simulatedAnnealing(precincts, { districtCount: 2, baseline, retentionWeight: 10, seed: 5, schedule: { iterations: 0 } });
+    expect(start.breakdown.retention).toBeCloseTo(5);
+
+    const { breakdown } = simulatedAnnealing(precincts, { districtCount: 2, adjacency, preserveContiguity: true, baseline, retentionWeight: 10, seed: 5 });
+    expect(breakdown.retention).toBeLessThan(start.breakdown.retention / 2);
+  });
+});
+
+describe('community split penalty', () => {
+  it('reunites a community split between districts', () => {
+    // The top row is a community, cut in half by the column districts
+    const { precincts, adjacency } = grid(4, (_, col) => (col < 2 ? 1 : 2));
+    const communities = [[1, 2, 3, 4]];
+
+    const start = simulatedAnnealing(precincts, { districtCount: 2, communities, communitySplitWeight: 10, seed: 6, schedule: { iterations: 0 } });
+    expect(start.breakdown.communities).toBeCloseTo(15);
+
+    const { assignment, breakdown } = simulatedAnnealing(precincts, { districtCount: 2, adjacency, preserveContiguity: true, communities, communitySplitWeight: 10, seed: 6 });
+    expect(breakdown.communities).toBeLessThan(start.breakdown.communities);
+    expect(new Set(communities[0].map(id => assignment.get(id))).size).toBe(1);
+  });
+});
@@ -1,28 +1,95 @@
-import type { Constraint } from './types';
+import type { AnnealingSchedule, Constraint } from './types';
+import { createRng } from './random';
+import { opportunityShare, DEFAULT_VRA_OPTIONS } from './vra';
+import type { VraOptions } from './vra';
 
 export interface AlgorithmConfig {
   districtCount: number;
   constraints?: Constraint[];
+  adjacency?: Map<number, number[]>; // precinctId -> neighbouring precinctIds
+  preserveContiguity?: boolean; // Only flip boundary precincts into adjacent districts, never disconnect the donor
+  seed?: number; // Same seed + same input = same plan; Math.random when omitted
+  populationTolerance?: number; // seedAndGrow: districts stop growing at ideal * (1 + tolerance)
+  reseedIterations?: number; // seedAndGrow: Lloyd-style reseed-and-regrow passes
+  sharedBorder?: (a: number, b: number) => number; // Border length between two precincts, for compactness
+  schedule?: Partial<AnnealingSchedule>; // simulatedAnnealing: merged over DEFAULT_ANNEALING_SCHEDULE
+  countySplitWeight?: number; // simulatedAnnealing: cost per county split (districts spanned - 1)
+  minOpportunityDistricts?: number; // simulatedAnnealing: VRA opportunity districts required; never dropped below once reached
+  vra?: VraOptions; // simulatedAnnealing: opportunity district definition
+  baseline?: Map<number, number>; // simulatedAnnealing: precinctId -> baseline district (1..districtCount)
+  retentionWeight?: number; // simulatedAnnealing: cost per share of population displaced from the baseline cores
+  communities?: number[][]; // simulatedAnnealing: precinct ids of each community of interest
+  communitySplitWeight?: number; // simulatedAnnealing: cost per community split (districts spanned - 1, plus the share outside the largest piece)
+}
+
+// Components of the final annealing cost
+export interface AnnealingCostBreakdown {
+  population: number; // Sum of |pop - ideal| / ideal
+  countySplits: number; // Weighted county split penalty
+  constraints: number; // Constraint target shortfall
+  opportunity: number; // Penalty for missing VRA opportunity districts
+  retention: number; // Weighted share of population outside its district's baseline core
+  communities: number; // Weighted community of interest split penalty
+}
+
+// Cost per missing opportunity district; dominates the other terms so the goal is met first
+const OPPORTUNITY_PENALTY = 1000;
+
+export const DEFAULT_ANNEALING_SCHEDULE: AnnealingSchedule = {
+  type: 'geometric',
+  iterations: 2000,
+  initialTemperature: 1.0,
+  coolingRate: 0.995
+};
+
+// Returns true if the donor district stays connected once `precinctId` leaves it.
+// Only the precinct's own donor-side neighbours need to remain mutually reachable; an enclave
+// or island piece with none can always leave. Emptying the donor is checked by the caller.
+function remainsConnectedWithout(
+  precinctId: number,
+  donorDistrict: number,
+  assignment: Map<number, number>,
+  adjacency: Map<number, number[]>
+): boolean {
+  const donorNeighbors = (adjacency.get(precinctId) || []).filter(n => assignment.get(n) === donorDistrict);
+  if (donorNeighbors.length <= 1) return true;
+
+  const targets = new Set(donorNeighbors);
+  const visited = new Set<number>([precinctId, donorNeighbors[0]]);
+  const queue = [donorNeighbors[0]];
+  targets.delete(donorNeighbors[0]);
+
+  while (queue.length > 0 && targets.size > 0) {
+    const current = queue.pop()!;
+    for (const n of adjacency.get(current) || []) {
+      if (visited.has(n) || assignment.get(n) !== donorDistrict) continue;
+      visited.add(n);
+      targets.delete(n);
+      queue.push(n);
+    }
+  }
+
+  return targets.size === 0;
 }
 
 export function seedAndGrow(
   precincts: { id: number; districtId: number; population: number; x: number; y: number }[],
   config: AlgorithmConfig
 ): Map<number, number> {
-  const { districtCount } = config;
-  const newDistricts = new Map<number, number>();
+  const { districtCount, adjacency, populationTolerance = 0.01, reseedIterations = 3 } = config;
+  const random = createRng(config.seed);
   
   // 1. Pick Random Seeds as Centers
-  const centers: { x: number, y: number, id: number }[] = [];
+  const centers: { x: number, y: number, id: number, precinctId: number }[] = [];
   const usedSeeds = new Set<number>();
   
   for (let i = 0; i < districtCount; i++) {
     let attempts = 0;
     while (attempts < 100) {
-      const randomIdx = Math.floor(Math.random() * precincts.length);
+      const randomIdx = Math.floor(random() * precincts.length);
       const p = precincts[randomIdx];
       if (!usedSeeds.has(p.id)) {
-        centers.push({ x: p.x, y: p.y, id: i + 1 });
+        centers.push({ x: p.x, y: p.y, id: i + 1, precinctId: p.id });
         usedSeeds.add(p.id);
         break;
       }
@@ -30,8 +97,7 @@ export function seedAndGrow(
     }
   }
 
-  // 2. Assign every precinct to nearest center (Voronoi-like)
-  precincts.forEach(p => {
+  const nearestCenter = (p: { x: number; y: number }): number => {
     let minDist = Infinity;
     let closestDistrict = 1;
     
@@ -44,201 +110,950 @@ export function seedAndGrow(
         closestDistrict = center.id;
       }
     }
-    newDistricts.set(p.id, closestDistrict);
+    return closestDistrict;
+  };
+
+  // Without adjacency we can only assign every precinct to nearest center (Voronoi-like)
+  if (!adjacency) {
+    const newDistricts = new Map<number, number>();
+    precincts.forEach(p => newDistricts.set(p.id, nearestCenter(p)));
+    return newDistricts;
+  }
+
+  const byId = new Map<number, typeof precincts[number]>();
+  let totalPop = 0;
+  precincts.forEach(p => {
+    byId.set(p.id, p);
+    totalPop += p.population;
   });
+  const idealPop = totalPop / districtCount;
+  const cap = idealPop * (1 + populationTolerance);
+
+  // 2. Grow all districts across adjacency, always extending the least populated one
+  // that can still take its next frontier precinct without passing the cap
+  const grow = (): { assignment: Map<number, number>; maxDeviation: number } => {
+    const assignment = new Map<number, number>();
+    const districtPop = new Float64Array(districtCount + 1);
+    const frontiers: number[][] = [[]];
+    const heads = new Int32Array(districtCount + 1);
+    const full = new Uint8Array(districtCount + 1);
+
+    for (let d = 1; d <= districtCount; d++) frontiers.push([]);
+    centers.forEach(c => {
+      assignment.set(c.precinctId, c.id);
+      districtPop[c.id] += byId.get(c.precinctId)!.population;
+      frontiers[c.id].push(...(adjacency.get(c.precinctId) || []));
+    });
+
+    for (;;) {
+      let district = -1;
+      for (let d = 1; d <= districtCount; d++) {
+        if (full[d] || heads[d] >= frontiers[d].length) continue;
+        if (district === -1 || districtPop[d] < districtPop[district]) district = d;
+      }
+      if (district === -1) break;
+
+      const candidate = frontiers[district][heads[district]];
+      const p = byId.get(candidate);
+      if (!p || assignment.has(candidate)) {
+        heads[district]++; // Taken by another district, or outside this state
+        continue;
+      }
+      if (districtPop[district] + p.population > cap) {
+        // Leave it for a neighbour; a district already at the ideal stops growing
+        heads[district]++;
+        if (districtPop[district] >= idealPop) full[district] = 1;
+        continue;
+      }
+
+      heads[district]++;
+      assignment.set(candidate, district);
+      districtPop[district] += p.population;
+      frontiers[district].push(...(adjacency.get(candidate) || []));
+    }
+
+    // 3. Leftovers join their least populated neighbouring district
+    let changed = true;
+    while (changed) {
+      changed = false;
+      precincts.forEach(p => {
+        if (assignment.has(p.id)) return;
+        let best = -1;
+        for (const n of adjacency.get(p.id) || []) {
+          const d = assignment.get(n);
+          if (d !== undefined && (best === -1 || districtPop[d] < districtPop[best])) best = d;
+        }
+        if (best !== -1) {
+          assignment.set(p.id, best);
+          districtPop[best] += p.population;
+          changed = true;
+        }
+      });
+    }
 
-  return newDistricts;
+    // Precincts unreachable from any seed (islands) fall back to the nearest center
+    precincts.forEach(p => {
+      if (!assignment.has(p.id)) {
+        const d = nearestCenter(p);
+        assignment.set(p.id, d);
+        districtPop[d] += p.population;
+      }
+    });
+
+    let maxDeviation = 0;
+    for (let d = 1; d <= districtCount; d++) {
+      maxDeviation = Math.max(maxDeviation, Math.abs(districtPop[d] - idealPop) / idealPop);
+    }
+    return { assignment, maxDeviation };
+  };
+
+  let best = grow();
+
+  // 4. Lloyd-style reseeding: move each seed to the precinct nearest its district's
+  // population-weighted centroid and regrow, keeping the best balanced plan
+  for (let iter = 0; iter < reseedIterations; iter++) {
+    const sums = new Float64Array((districtCount + 1) * 3); // [pop, x * pop, y * pop]
+    best.assignment.forEach((d, id) => {
+      const p = byId.get(id)!;
+      const w = Math.max(p.population, 1);
+      sums[d * 3] += w;
+      sums[d * 3 + 1] += p.x * w;
+      sums[d * 3 + 2] += p.y * w;
+    });
+
+    const nearestToCentroid = new Map<number, { id: number; dist: number }>();
+    best.assignment.forEach((d, id) => {
+      const p = byId.get(id)!;
+      const w = sums[d * 3];
+      if (w === 0) return;
+      const dx = p.x - sums[d * 3 + 1] / w;
+      const dy = p.y - sums[d * 3 + 2] / w;
+      const dist = dx * dx + dy * dy;
+      const current = nearestToCentroid.get(d);
+      if (!current || dist < current.dist) nearestToCentroid.set(d, { id, dist });
+    });
+
+    centers.forEach(c => {
+      const nearest = nearestToCentroid.get(c.id);
+      if (!nearest) return;
+      const p = byId.get(nearest.id)!;
+      c.precinctId = p.id;
+      c.x = p.x;
+      c.y = p.y;
+    });
+
+    const candidate = grow();
+    if (candidate.maxDeviation < best.maxDeviation) best = candidate;
+  }
+
+  return best.assignment;
 }
 
 export function simulatedAnnealing(
-  precincts: { id: number; districtId: number; population: number; stats?: number[]; slopes?: number[] }[],
+  precincts: { id: number; districtId: number; population: number; stats?: number[]; slopes?: number[]; projected?: number[]; area?: number; perimeter?: number; countyId?: number }[],
   config: AlgorithmConfig
-): { assignment: Map<number, number>, cost: number } {
-  const { districtCount, constraints = [] } = config;
+): { assignment: Map<number, number>, cost: number, breakdown: AnnealingCostBreakdown } {
+  const { districtCount, constraints = [], adjacency, preserveContiguity = false, sharedBorder, countySplitWeight = 0 } = config;
+  const useBoundaryFlips = preserveContiguity && adjacency !== undefined;
+  const random = createRng(config.seed);
   
   const currentAssignment = new Map<number, number>();
   // Initialize with current assignment
   precincts.forEach(p => currentAssignment.set(p.id, p.districtId));
+
+  // Boundary precincts (those with a neighbour in another district), kept as an
+  // indexable set so a random one can be drawn in O(1)
+  const boundaryList: number[] = [];
+  const boundaryIndex = new Map<number, number>();
+
+  const isBoundary = (id: number): boolean => {
+    const d = currentAssignment.get(id);
+    for (const n of adjacency!.get(id) || []) {
+      const nd = currentAssignment.get(n);
+      if (nd !== undefined && nd !== d) return true;
+    }
+    return false;
+  };
+
+  const refreshBoundary = (id: number) => {
+    const idx = boundaryIndex.get(id);
+    if (isBoundary(id)) {
+      if (idx === undefined) {
+        boundaryIndex.set(id, boundaryList.length);
+        boundaryList.push(id);
+      }
+    } else if (idx !== undefined) {
+      const last = boundaryList.pop()!;
+      if (last !== id) {
+        boundaryList[idx] = last;
+        boundaryIndex.set(last, idx);
+      }
+      boundaryIndex.delete(id);
+    }
+  };
+
+  if (useBoundaryFlips) {
+    precincts.forEach(p => refreshBoundary(p.id));
+  }
   
   // Pre-allocate data structures for cost calculation to avoid GC thrashing
   // We use flat arrays for district stats: [pop, dem, rep, white, black, hispanic, eduProd, incProd] * districtCount
   // And slopes: [pop, dem, rep, white, black, hispanic] * districtCount
+  // These hold running totals: a move only touches the donor and receiving districts,
+  // so each proposal is costed in O(constraints) instead of re-aggregating every precinct.
   const STATS_STRIDE = 8;
   const SLOPES_STRIDE = 6;
   
   const districtStatsBuffer = new Float64Array((districtCount + 1) * STATS_STRIDE); // +1 for 1-based indexing safety
   const districtSlopesBuffer = new Float64Array((districtCount + 1) * SLOPES_STRIDE);
+  const districtPrecinctCount = new Int32Array(districtCount + 1);
+  // Projected [pop, dem, rep, white, black, hispanic] at the target year, only for 'projected' constraints
+  const trackProjected = constraints.some(c => c.metricType === 'projected');
+  const districtProjectedBuffer = new Float64Array(trackProjected ? (districtCount + 1) * SLOPES_STRIDE : 0);
 
-  // Helper to clear buffers
-  const clearBuffers = () => {
-    districtStatsBuffer.fill(0);
-    districtSlopesBuffer.fill(0);
-  };
+  const precinctIndex = new Map<number, number>();
+  precincts.forEach((p, i) => precinctIndex.set(p.id, i));
 
-  // Helper to calculate cost
-  const calculateCost = (assignment: Map<number, number>): number => {
-    let cost = 0;
+  // Add (sign = 1) or remove (sign = -1) a precinct's contribution to a district
+  const accumulate = (p: typeof precincts[number], dId: number, sign: number) => {
+    const stats = p.stats || [0,0,0,0,0,0,0,0];
+    const slopes = p.slopes || [0,0,0,0,0,0];
     
-    // 1. Reset Aggregators
-    clearBuffers();
+    const statsOffset = dId * STATS_STRIDE;
+    const slopesOffset = dId * SLOPES_STRIDE;
+    districtPrecinctCount[dId] += sign;
     
-    let totalPop = 0;
-
-    // 2. Aggregate Stats (Hot Loop)
-    // We iterate precincts and sum up stats into the buffers
-    const len = precincts.length;
-    for (let i = 0; i < len; i++) {
-      const p = precincts[i];
-      const dId = assignment.get(p.id)!;
-      
-      const stats = p.stats || [0,0,0,0,0,0,0,0];
-      const slopes = p.slopes || [0,0,0,0,0,0];
-      
-      const statsOffset = dId * STATS_STRIDE;
-      const slopesOffset = dId * SLOPES_STRIDE;
+    // Unroll for performance
+    districtStatsBuffer[statsOffset] += sign * stats[0];     // pop
+    districtStatsBuffer[statsOffset + 1] += sign * stats[1]; // dem
+    districtStatsBuffer[statsOffset + 2] += sign * stats[2]; // rep
+    districtStatsBuffer[statsOffset + 3] += sign * stats[3]; // white
+    districtStatsBuffer[statsOffset + 4] += sign * stats[4]; // black
+    districtStatsBuffer[statsOffset + 5] += sign * stats[5]; // hispanic
+    districtStatsBuffer[statsOffset + 6] += sign * (stats[6] || 0) * stats[0]; // eduProd
+    districtStatsBuffer[statsOffset + 7] += sign * (stats[7] || 0) * stats[0]; // incProd
+    
+    districtSlopesBuffer[slopesOffset] += sign * slopes[0];
+    districtSlopesBuffer[slopesOffset + 1] += sign * slopes[1];
+    districtSlopesBuffer[slopesOffset + 2] += sign * slopes[2];
+    districtSlopesBuffer[slopesOffset + 3] += sign * slopes[3];
+    districtSlopesBuffer[slopesOffset + 4] += sign * slopes[4];
+    districtSlopesBuffer[slopesOffset + 5] += sign * slopes[5];
+
+    if (trackProjected && p.projected) {
+      for (let k = 0; k < SLOPES_STRIDE; k++) districtProjectedBuffer[slopesOffset + k] += sign * p.projected[k];
+    }
+  };
+
+  // District shape: [area, perimeter]. Perimeter excludes borders shared inside the district,
+  // so moving a precinct only needs its borders with the two districts involved.
+  const trackShape = adjacency !== undefined && sharedBorder !== undefined && constraints.some(c => c.metric === 'compactness');
+  const districtShapeBuffer = new Float64Array((districtCount + 1) * 2);
+
+  const borderWith = (id: number, dId: number): number => {
+    let length = 0;
+    for (const n of adjacency!.get(id) || []) {
+      if (currentAssignment.get(n) === dId) length += sharedBorder!(id, n);
+    }
+    return length;
+  };
+
+  let totalPop = 0;
+  precincts.forEach(p => {
+    const dId = currentAssignment.get(p.id)!;
+    accumulate(p, dId, 1);
+    totalPop += (p.stats || [0])[0];
+    if (trackShape) {
+      districtShapeBuffer[dId * 2] += p.area || 0;
+      districtShapeBuffer[dId * 2 + 1] += (p.perimeter || 0) - borderWith(p.id, dId);
+    }
+  });
+  const targetPop = totalPop / districtCount;
+
+  // Population Deviation term of a single district
+  const populationTerm = (d: number): number => {
+    const pop = districtStatsBuffer[d * STATS_STRIDE];
+    return pop > 0 ? Math.abs(pop - targetPop) / targetPop : 0; // Only count active districts
+  };
+
+  const constraintValue = (c: Constraint, d: number): number => {
+    const offset = d * STATS_STRIDE;
+    const pop = districtStatsBuffer[offset];
+
+    if (c.metricType === 'growth') {
+      const sOffset = d * SLOPES_STRIDE;
+      let slope = 0;
+      let currentVal = 0;
       
-      // Unroll for performance
-      districtStatsBuffer[statsOffset] += stats[0];     // pop
-      districtStatsBuffer[statsOffset + 1] += stats[1]; // dem
-      districtStatsBuffer[statsOffset + 2] += stats[2]; // rep
-      districtStatsBuffer[statsOffset + 3] += stats[3]; // white
-      districtStatsBuffer[statsOffset + 4] += stats[4]; // black
-      districtStatsBuffer[statsOffset + 5] += stats[5]; // hispanic
-      districtStatsBuffer[statsOffset + 6] += (stats[6] || 0) * stats[0]; // eduProd
-      districtStatsBuffer[statsOffset + 7] += (stats[7] || 0) * stats[0]; // incProd
+      switch (c.metric) {
+        case 'population': slope = districtSlopesBuffer[sOffset]; currentVal = pop; break;
+        case 'demVotes': slope = districtSlopesBuffer[sOffset + 1]; currentVal = districtStatsBuffer[offset + 1]; break;
+        case 'repVotes': slope = districtSlopesBuffer[sOffset + 2]; currentVal = districtStatsBuffer[offset + 2]; break;
+        case 'white': slope = districtSlopesBuffer[sOffset + 3]; currentVal = districtStatsBuffer[offset + 3]; break;
+        case 'black': slope = districtSlopesBuffer[sOffset + 4]; currentVal = districtStatsBuffer[offset + 4]; break;
+        case 'hispanic': slope = districtSlopesBuffer[sOffset + 5]; currentVal = districtStatsBuffer[offset + 5]; break;
+        default: slope = 0; currentVal = 1;
+      }
       
-      districtSlopesBuffer[slopesOffset] += slopes[0];
-      districtSlopesBuffer[slopesOffset + 1] += slopes[1];
-      districtSlopesBuffer[slopesOffset + 2] += slopes[2];
-      districtSlopesBuffer[slopesOffset + 3] += slopes[3];
-      districtSlopesBuffer[slopesOffset + 4] += slopes[4];
-      districtSlopesBuffer[slopesOffset + 5] += slopes[5];
+      return currentVal !== 0 ? (slope / currentVal) * 100 : 0;
+    }
 
-      totalPop += stats[0];
+    if (c.metricType === 'projected') {
+      const pOffset = d * SLOPES_STRIDE;
+      switch (c.metric) {
+        case 'population': return districtProjectedBuffer[pOffset];
+        case 'demVotes': return districtProjectedBuffer[pOffset + 1];
+        case 'repVotes': return districtProjectedBuffer[pOffset + 2];
+        case 'white': return districtProjectedBuffer[pOffset + 3];
+        case 'black': return districtProjectedBuffer[pOffset + 4];
+        case 'hispanic': return districtProjectedBuffer[pOffset + 5];
+        case 'margin': {
+          const dem = districtProjectedBuffer[pOffset + 1];
+          const rep = districtProjectedBuffer[pOffset + 2];
+          return dem + rep > 0 ? (Math.abs(dem - rep) / (dem + rep)) * 100 : 0;
+        }
+      }
+      // Metrics without a projection fall back to their current value
     }
 
-    const targetPop = totalPop / districtCount;
-    
-    // 3. Calculate Cost
-    // Population Deviation
+    switch (c.metric) {
+      case 'population': return pop;
+      case 'demVotes': return districtStatsBuffer[offset + 1];
+      case 'repVotes': return districtStatsBuffer[offset + 2];
+      case 'white': return districtStatsBuffer[offset + 3];
+      case 'black': return districtStatsBuffer[offset + 4];
+      case 'hispanic': return districtStatsBuffer[offset + 5];
+      case 'education': return districtStatsBuffer[offset + 6] / pop;
+      case 'income': return districtStatsBuffer[offset + 7] / pop;
+      case 'countySplits': return districtSplitCounties[d];
+      case 'margin': {
+        const dem = districtStatsBuffer[offset + 1];
+        const rep = districtStatsBuffer[offset + 2];
+        return dem + rep > 0 ? (Math.abs(dem - rep) / (dem + rep)) * 100 : 0;
+      }
+      case 'compactness': {
+        // Polsby-Popper
+        const perimeter = districtShapeBuffer[d * 2 + 1];
+        return perimeter > 0 ? (4 * Math.PI * districtShapeBuffer[d * 2]) / (perimeter * perimeter) : 0;
+      }
+    }
+    return 0;
+  };
+
+  const meetsConstraint = (c: Constraint, d: number): boolean => {
+    if (districtStatsBuffer[d * STATS_STRIDE] <= 0) return false;
+    const val = constraintValue(c, d);
+    switch (c.operator) {
+      case '>': return val > c.value;
+      case '<': return val < c.value;
+      case '>=': return val >= c.value;
+      case '<=': return val <= c.value;
+      case '~=': {
+        const tolerance = c.value * 0.05;
+        return val >= (c.value - tolerance) && val <= (c.value + tolerance);
+      }
+      case 'between': {
+        const max = c.maxValue ?? c.value;
+        return val >= c.value && val <= max;
+      }
+    }
+    return false;
+  };
+
+  // County splits: precinct counts per (county, district), so a move only revisits its own county
+  const trackCounties = countySplitWeight > 0 || constraints.some(c => c.metric === 'countySplits');
+  const countyDistricts = new Map<number, Map<number, number>>(); // county -> district -> precincts
+  const districtSplitCounties = new Float64Array(districtCount + 1); // Split counties each district touches
+  let countySplits = 0;
+
+  if (trackCounties) {
+    precincts.forEach(p => {
+      if (p.countyId === undefined) return;
+      const dId = currentAssignment.get(p.id)!;
+      if (!countyDistricts.has(p.countyId)) countyDistricts.set(p.countyId, new Map());
+      const counts = countyDistricts.get(p.countyId)!;
+      counts.set(dId, (counts.get(dId) ?? 0) + 1);
+    });
+    countyDistricts.forEach(counts => {
+      countySplits += counts.size - 1;
+      if (counts.size > 1) counts.forEach((_, d) => districtSplitCounties[d]++);
+    });
+  }
+
+  // VRA opportunity districts: combined minority share per district, refreshed only for the two
+  // districts a move touches. Below the goal, the cost also falls as the most promising
+  // non-opportunity districts approach the threshold, so the annealer has a gradient to follow.
+  const minOpportunity = config.minOpportunityDistricts ?? 0;
+  const vra = config.vra ?? DEFAULT_VRA_OPTIONS;
+  const trackOpportunity = minOpportunity > 0;
+  const districtMinorityShare = new Float64Array(districtCount + 1);
+  let opportunityCount = 0;
+
+  const minorityShareOf = (d: number): number => {
+    const offset = d * STATS_STRIDE;
+    return opportunityShare({
+      population: districtStatsBuffer[offset],
+      white: districtStatsBuffer[offset + 3],
+      black: districtStatsBuffer[offset + 4],
+      hispanic: districtStatsBuffer[offset + 5]
+    }, vra);
+  };
+
+  if (trackOpportunity) {
     for (let d = 1; d <= districtCount; d++) {
-      const pop = districtStatsBuffer[d * STATS_STRIDE];
-      if (pop > 0) { // Only count active districts
-         cost += Math.abs(pop - targetPop) / targetPop;
-      }
-    }
-
-    // Constraint Cost
-    if (constraints.length > 0) {
-      const cLen = constraints.length;
-      for (let i = 0; i < cLen; i++) {
-        const c = constraints[i];
-        let districtsMeeting = 0;
-        let totalDistricts = 0;
-        
-        for (let d = 1; d <= districtCount; d++) {
-          const offset = d * STATS_STRIDE;
-          const pop = districtStatsBuffer[offset];
-          
-          if (pop === 0) continue;
-          totalDistricts++;
-          
-          let val = 0;
-          
-          if (c.metricType === 'growth') {
-             const sOffset = d * SLOPES_STRIDE;
-             let slope = 0;
-             let currentVal = 0;
-             
-             switch (c.metric) {
-               case 'population': slope = districtSlopesBuffer[sOffset]; currentVal = pop; break;
-               case 'demVotes': slope = districtSlopesBuffer[sOffset + 1]; currentVal = districtStatsBuffer[offset + 1]; break;
-               case 'repVotes': slope = districtSlopesBuffer[sOffset + 2]; currentVal = districtStatsBuffer[offset + 2]; break;
-               case 'white': slope = districtSlopesBuffer[sOffset + 3]; currentVal = districtStatsBuffer[offset + 3]; break;
-               case 'black': slope = districtSlopesBuffer[sOffset + 4]; currentVal = districtStatsBuffer[offset + 4]; break;
-               case 'hispanic': slope = districtSlopesBuffer[sOffset + 5]; currentVal = districtStatsBuffer[offset + 5]; break;
-               default: slope = 0; currentVal = 1;
-             }
-             
-             if (currentVal !== 0) {
-               val = (slope / currentVal) * 100;
-             }
-          } else {
-             switch (c.metric) {
-               case 'population': val = pop; break;
-               case 'demVotes': val = districtStatsBuffer[offset + 1]; break;
-               case 'repVotes': val = districtStatsBuffer[offset + 2]; break;
-               case 'white': val = districtStatsBuffer[offset + 3]; break;
-               case 'black': val = districtStatsBuffer[offset + 4]; break;
-               case 'hispanic': val = districtStatsBuffer[offset + 5]; break;
-               case 'education': val = districtStatsBuffer[offset + 6] / pop; break;
-               case 'income': val = districtStatsBuffer[offset + 7] / pop; break;
-             }
-          }
-          
-          let meets = false;
-          switch (c.operator) {
-            case '>': meets = val > c.value; break;
-            case '<': meets = val < c.value; break;
-            case '>=': meets = val >= c.value; break;
-            case '<=': meets = val <= c.value; break;
-            case '~=': {
-              const tolerance = c.value * 0.05;
-              meets = val >= (c.value - tolerance) && val <= (c.value + tolerance);
-              break;
-            }
-            case 'between': {
-              const max = c.maxValue ?? c.value;
-              meets = val >= c.value && val <= max;
-              break;
-            }
-          }
-          
-          if (meets) districtsMeeting++;
-        }
-        
-        const percentMet = (districtsMeeting / Math.max(1, totalDistricts)) * 100;
-        const deviation = Math.abs(percentMet - c.targetPercent);
-        cost += deviation * 10;
+      districtMinorityShare[d] = minorityShareOf(d);
+      if (districtMinorityShare[d] > vra.threshold) opportunityCount++;
+    }
+  }
+
+  const opportunityCost = (): number => {
+    const missing = minOpportunity - opportunityCount;
+    if (missing <= 0) return 0;
+
+    const candidates: number[] = [];
+    for (let d = 1; d <= districtCount; d++) {
+      if (districtMinorityShare[d] <= vra.threshold) candidates.push(districtMinorityShare[d]);
+    }
+    candidates.sort((a, b) => b - a);
+    let gap = 0;
+    for (let i = 0; i < Math.min(missing, candidates.length); i++) gap += vra.threshold - candidates[i];
+    return OPPORTUNITY_PENALTY * (missing + gap);
+  };
+
+  // Communities of interest: precinct counts per (community, district), like counties,
+  // except that a precinct may belong to several communities. Each split also costs the share
+  // of members outside the largest piece, so reuniting a community is rewarded step by step.
+  const communitySplitWeight = config.communitySplitWeight ?? 0;
+  const trackCommunities = communitySplitWeight > 0 && (config.communities?.length ?? 0) > 0;
+  const precinctCommunities = new Map<number, number[]>();
+  const communityDistricts: Map<number, number>[] = [];
+  const communitySize: number[] = [];
+  const communityTerms: number[] = [];
+  let communityPenalty = 0;
+
+  const communityTerm = (c: number): number => {
+    const counts = communityDistricts[c];
+    if (counts.size <= 1) return 0;
+    let largest = 0;
+    counts.forEach(n => { largest = Math.max(largest, n); });
+    return counts.size - 1 + (communitySize[c] - largest) / communitySize[c];
+  };
+
+  if (trackCommunities) {
+    config.communities!.forEach((ids, c) => {
+      const counts = new Map<number, number>();
+      let size = 0;
+      new Set(ids).forEach(id => {
+        const d = currentAssignment.get(id);
+        if (d === undefined) return;
+        size++;
+        counts.set(d, (counts.get(d) ?? 0) + 1);
+        if (!precinctCommunities.has(id)) precinctCommunities.set(id, []);
+        precinctCommunities.get(id)!.push(c);
+      });
+      communityDistricts.push(counts);
+      communitySize.push(size);
+      communityTerms.push(communityTerm(c));
+      communityPenalty += communityTerms[c];
+    });
+  }
+
+  // Core retention: population overlap of every (district, baseline district) pair. A district's
+  // core is its largest overlap, so only the two districts a move touches need a rescan.
+  const retentionWeight = config.retentionWeight ?? 0;
+  const trackRetention = retentionWeight > 0 && config.baseline !== undefined;
+  const baselineStride = districtCount + 1;
+  const retentionOverlap = new Float64Array(trackRetention ? baselineStride * baselineStride : 0); // [district * stride + baseline]
+  const districtCore = new Float64Array(districtCount + 1);
+  let retainedPopulation = 0;
+
+  const coreOf = (d: number): number => {
+    let core = 0;
+    for (let b = 1; b <= districtCount; b++) core = Math.max(core, retentionOverlap[d * baselineStride + b]);
+    return core;
+  };
+
+  if (trackRetention) {
+    precincts.forEach(p => {
+      const b = config.baseline!.get(p.id);
+      if (b !== undefined) retentionOverlap[currentAssignment.get(p.id)! * baselineStride + b] += (p.stats || [0])[0];
+    });
+    for (let d = 1; d <= districtCount; d++) {
+      districtCore[d] = coreOf(d);
+      retainedPopulation += districtCore[d];
+    }
+  }
+
+  const retentionCost = (): number => trackRetention && totalPop > 0 ? retentionWeight * (totalPop - retainedPopulation) / totalPop : 0;
+
+  // Running cost components
+  let populationCost = 0;
+  let activeDistricts = 0;
+  const cLen = constraints.length;
+  const districtMeets = new Uint8Array((districtCount + 1) * Math.max(1, cLen)); // [constraint * (districtCount + 1) + district]
+  const districtsMeeting = new Int32Array(cLen);
+
+  for (let d = 1; d <= districtCount; d++) {
+    populationCost += populationTerm(d);
+    if (districtStatsBuffer[d * STATS_STRIDE] > 0) activeDistricts++;
+    for (let i = 0; i < cLen; i++) {
+      if (meetsConstraint(constraints[i], d)) {
+        districtMeets[i * (districtCount + 1) + d] = 1;
+        districtsMeeting[i]++;
       }
     }
+  }
 
+  const constraintCost = (): number => {
+    let cost = 0;
+    for (let i = 0; i < cLen; i++) {
+      const percentMet = (districtsMeeting[i] / Math.max(1, activeDistricts)) * 100;
+      const deviation = Math.abs(percentMet - constraints[i].targetPercent);
+      cost += deviation * 10;
+    }
     return cost;
   };
 
-  let currentCost = calculateCost(currentAssignment);
-  const iterations = 2000;
-  let temperature = 1.0;
-  const coolingRate = 0.995;
+  const totalCost = (): number => populationCost + countySplitWeight * countySplits + constraintCost() + opportunityCost() + retentionCost() + communitySplitWeight * communityPenalty;
 
-  for (let i = 0; i < iterations; i++) {
-    // Pick random precinct
-    const randomIdx = Math.floor(Math.random() * precincts.length);
-    const p = precincts[randomIdx];
+  // Move one precinct between districts, updating every running total
+  const applyMove = (p: typeof precincts[number], from: number, to: number) => {
+    const fromActive = districtStatsBuffer[from * STATS_STRIDE] > 0;
+    const toActive = districtStatsBuffer[to * STATS_STRIDE] > 0;
+    populationCost -= populationTerm(from) + populationTerm(to);
+
+    accumulate(p, from, -1);
+    accumulate(p, to, 1);
+    if (trackShape) {
+      districtShapeBuffer[from * 2] -= p.area || 0;
+      districtShapeBuffer[from * 2 + 1] += 2 * borderWith(p.id, from) - (p.perimeter || 0);
+      districtShapeBuffer[to * 2] += p.area || 0;
+      districtShapeBuffer[to * 2 + 1] += (p.perimeter || 0) - 2 * borderWith(p.id, to);
+    }
+    currentAssignment.set(p.id, to);
+
+    // Districts whose constraint values may have changed
+    const affected = [from, to];
+
+    if (trackCounties && p.countyId !== undefined) {
+      const counts = countyDistricts.get(p.countyId)!;
+      const before = counts.size;
+      if (before > 1) {
+        counts.forEach((_, d) => {
+          districtSplitCounties[d]--;
+          if (!affected.includes(d)) affected.push(d);
+        });
+      }
+
+      const remaining = counts.get(from)! - 1;
+      if (remaining === 0) counts.delete(from);
+      else counts.set(from, remaining);
+      counts.set(to, (counts.get(to) ?? 0) + 1);
+
+      if (counts.size > 1) {
+        counts.forEach((_, d) => {
+          districtSplitCounties[d]++;
+          if (!affected.includes(d)) affected.push(d);
+        });
+      }
+      countySplits += counts.size - before;
+    }
+
+    if (trackOpportunity) {
+      for (const d of [from, to]) {
+        const share = minorityShareOf(d);
+        opportunityCount += Number(share > vra.threshold) - Number(districtMinorityShare[d] > vra.threshold);
+        districtMinorityShare[d] = share;
+      }
+    }
+
+    if (trackCommunities) {
+      for (const c of precinctCommunities.get(p.id) || []) {
+        const counts = communityDistricts[c];
+        const remaining = counts.get(from)! - 1;
+        if (remaining === 0) counts.delete(from);
+        else counts.set(from, remaining);
+        counts.set(to, (counts.get(to) ?? 0) + 1);
+        const term = communityTerm(c);
+        communityPenalty += term - communityTerms[c];
+        communityTerms[c] = term;
+      }
+    }
+
+    if (trackRetention) {
+      const b = config.baseline!.get(p.id);
+      if (b !== undefined) {
+        const pop = (p.stats || [0])[0];
+        retentionOverlap[from * baselineStride + b] -= pop;
+        retentionOverlap[to * baselineStride + b] += pop;
+        for (const d of [from, to]) {
+          const core = coreOf(d);
+          retainedPopulation += core - districtCore[d];
+          districtCore[d] = core;
+        }
+      }
+    }
+
+    populationCost += populationTerm(from) + populationTerm(to);
+    activeDistricts += Number(districtStatsBuffer[from * STATS_STRIDE] > 0) - Number(fromActive);
+    activeDistricts += Number(districtStatsBuffer[to * STATS_STRIDE] > 0) - Number(toActive);
+
+    for (let i = 0; i < cLen; i++) {
+      const base = i * (districtCount + 1);
+      for (const d of affected) {
+        const meets = meetsConstraint(constraints[i], d) ? 1 : 0;
+        districtsMeeting[i] += meets - districtMeets[base + d];
+        districtMeets[base + d] = meets;
+      }
+    }
+  };
+
+  let currentCost = totalCost();
+  const schedule = { ...DEFAULT_ANNEALING_SCHEDULE, ...config.schedule };
+  const { iterations, initialTemperature, coolingRate } = schedule;
+  const finalTemperature = schedule.finalTemperature ?? 0.001;
+  const reheatWindow = Math.max(1, schedule.reheatWindow ?? 200);
+  const reheatThreshold = schedule.reheatThreshold ?? 0.02;
+  const reheatRatio = schedule.reheatRatio ?? 0.5;
+  let temperature = initialTemperature;
+  let windowAccepted = 0;
+  let reheats = 0;
+
+  // Propose a single move; returns whether it was accepted
+  const step = (): boolean => {
+    let precinctId: number;
+    let oldDistrict: number;
+    let newDistrict: number;
+
+    if (useBoundaryFlips) {
+      // Pick a random boundary precinct and one of the districts it touches
+      precinctId = boundaryList[Math.floor(random() * boundaryList.length)];
+      oldDistrict = currentAssignment.get(precinctId)!;
+
+      const candidates: number[] = [];
+      for (const n of adjacency!.get(precinctId) || []) {
+        const nd = currentAssignment.get(n);
+        if (nd !== undefined && nd !== oldDistrict && !candidates.includes(nd)) candidates.push(nd);
+      }
+      newDistrict = candidates[Math.floor(random() * candidates.length)];
+
+      // Never erase the donor district
+      const moving = precincts[precinctIndex.get(precinctId)!];
+      if (districtPrecinctCount[oldDistrict] <= 1 || districtStatsBuffer[oldDistrict * STATS_STRIDE] - (moving.stats?.[0] ?? 0) <= 0) {
+        return false;
+      }
+      if (!remainsConnectedWithout(precinctId, oldDistrict, currentAssignment, adjacency!)) {
+        return false;
+      }
+    } else {
+      // Pick random precinct
+      const randomIdx = Math.floor(random() * precincts.length);
+      precinctId = precincts[randomIdx].id;
+      oldDistrict = currentAssignment.get(precinctId)!;
+      newDistrict = Math.floor(random() * districtCount) + 1;
+    }
     
-    const oldDistrict = currentAssignment.get(p.id)!;
-    const newDistrict = Math.floor(Math.random() * districtCount) + 1;
+    if (newDistrict === oldDistrict) return false;
+
+    // Apply move
+    const p = precincts[precinctIndex.get(precinctId)!];
+    const opportunityBefore = opportunityCount;
+    applyMove(p, oldDistrict, newDistrict);
+
+    // Hard floor: once the opportunity goal is met, never give it up
+    if (opportunityBefore >= minOpportunity && opportunityCount < minOpportunity) {
+      applyMove(p, newDistrict, oldDistrict);
+      return false;
+    }
+    const newCost = totalCost();
     
-    if (newDistrict !== oldDistrict) {
-      // Apply move
-      currentAssignment.set(p.id, newDistrict);
-      const newCost = calculateCost(currentAssignment);
-      
-      // Acceptance probability
-      if (newCost < currentCost) {
-        currentCost = newCost;
-      } else {
-        const prob = Math.exp(-(newCost - currentCost) / temperature);
-        if (Math.random() < prob) {
-          currentCost = newCost;
-        } else {
-          // Revert
-          currentAssignment.set(p.id, oldDistrict);
-        }
+    // Acceptance probability
+    let accepted = newCost < currentCost;
+    if (!accepted) {
+      const prob = Math.exp(-(newCost - currentCost) / temperature);
+      accepted = random() < prob;
+    }
+
+    if (accepted) {
+      currentCost = newCost;
+      if (useBoundaryFlips) {
+        refreshBoundary(precinctId);
+        (adjacency!.get(precinctId) || []).forEach(n => {
+          if (currentAssignment.has(n)) refreshBoundary(n);
+        });
       }
+    } else {
+      // Revert
+      applyMove(p, newDistrict, oldDistrict);
+    }
+    return accepted;
+  };
+
+  for (let i = 0; i < iterations; i++) {
+    if (useBoundaryFlips && boundaryList.length === 0) break;
+    if (step()) windowAccepted++;
+
+    switch (schedule.type) {
+      case 'linear':
+        temperature = initialTemperature + (finalTemperature - initialTemperature) * (i + 1) / iterations;
+        break;
+      case 'adaptive':
+        temperature *= coolingRate;
+        // Reheat when acceptance stalls; each reheat is lower than the last
+        if ((i + 1) % reheatWindow === 0) {
+          if (windowAccepted / reheatWindow < reheatThreshold) {
+            reheats++;
+            temperature = Math.max(temperature, initialTemperature * Math.pow(reheatRatio, reheats));
+          }
+          windowAccepted = 0;
+        }
+        break;
+      case 'geometric':
+      default:
+        temperature *= coolingRate;
     }
-    temperature *= coolingRate;
   }
   
-  return { assignment: currentAssignment, cost: currentCost };
+  return {
+    assignment: currentAssignment,
+    cost: currentCost,
+    breakdown: {
+      population: populationCost,
+      countySplits: countySplitWeight * countySplits,
+      constraints: constraintCost(),
+      opportunity: opportunityCost(),
+      retention: retentionCost(),
+      communities: communitySplitWeight * communityPenalty
+    }
+  };
+}
+
+export interface RecomOptions {
+  samples: number; // Plans to return
+  stepsPerSample?: number; // Chain steps between recorded plans
+  populationTolerance?: number; // Max |pop - ideal| / ideal for every district
+  maxAttempts?: number; // Spanning trees drawn per step before the step is abandoned
+  burnInSteps?: number; // Steps allowed to bring an unbalanced starting plan within tolerance
+}
+
+// ReCom (recombination) Markov chain: repeatedly merge two adjacent districts, draw a
+// random spanning tree of the merged region and cut one tree edge so that both halves
+// are population balanced. Both halves of a tree are connected, so every plan in the
+// chain is contiguous. Starting plans outside the tolerance are first walked towards
+// balance (burn-in); only plans with every district within tolerance are recorded.
+// Throws if burn-in can't reach the tolerance.
+export function recomChain(
+  precincts: { id: number; districtId: number; population: number }[],
+  config: AlgorithmConfig,
+  options: RecomOptions
+): Map<number, number>[] {
+  const { districtCount, adjacency } = config;
+  if (!adjacency) throw new Error('ReCom requires a precinct adjacency graph');
+  const random = createRng(config.seed);
+
+  const {
+    samples,
+    stepsPerSample = 10,
+    populationTolerance = 0.05,
+    maxAttempts = 20,
+    burnInSteps = 1000
+  } = options;
+
+  const assignment = new Map<number, number>();
+  const population = new Map<number, number>();
+  const members = new Map<number, Set<number>>(); // district -> precinct ids
+  const districtPop = new Float64Array(districtCount + 1);
+  let totalPop = 0;
+
+  precincts.forEach(p => {
+    assignment.set(p.id, p.districtId);
+    population.set(p.id, p.population);
+    if (!members.has(p.districtId)) members.set(p.districtId, new Set());
+    members.get(p.districtId)!.add(p.id);
+    districtPop[p.districtId] += p.population;
+    totalPop += p.population;
+  });
+
+  const ideal = totalPop / districtCount;
+  const maxDeviation = ideal * populationTolerance;
+  const pairDeviation = (a: number, b: number) => Math.max(Math.abs(a - ideal), Math.abs(b - ideal));
+
+  const isBalanced = () => {
+    for (let d = 1; d <= districtCount; d++) {
+      if (Math.abs(districtPop[d] - ideal) > maxDeviation) return false;
+    }
+    return true;
+  };
+
+  // Cut edges between districts, drawn by picking a random precinct and a foreign neighbour
+  const pickDistrictPair = (): [number, number] | null => {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const p = precincts[Math.floor(random() * precincts.length)];
+      const a = assignment.get(p.id)!;
+      const foreign = (adjacency.get(p.id) || []).filter(n => {
+        const d = assignment.get(n);
+        return d !== undefined && d !== a;
+      });
+      if (foreign.length > 0) {
+        return [a, assignment.get(foreign[Math.floor(random() * foreign.length)])!];
+      }
+    }
+    return null;
+  };
+
+  // Returns the precincts to assign to the first district, or null if no acceptable cut was found
+  const splitRegion = (a: number, b: number, strict: boolean): Set<number> | null => {
+    const nodes = [...members.get(a)!, ...members.get(b)!];
+    const local = new Map<number, number>();
+    nodes.forEach((id, i) => local.set(id, i));
+
+    const edges: number[] = [];
+    nodes.forEach((id, i) => {
+      for (const n of adjacency.get(id) || []) {
+        const j = local.get(n);
+        if (j !== undefined && j > i) edges.push(i, j);
+      }
+    });
+
+    const regionPop = districtPop[a] + districtPop[b];
+    const currentDeviation = pairDeviation(districtPop[a], districtPop[b]);
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      // Random spanning tree: Kruskal over a random edge order
+      const edgeCount = edges.length / 2;
+      const order = new Int32Array(edgeCount);
+      for (let e = 0; e < edgeCount; e++) order[e] = e;
+      for (let e = edgeCount - 1; e > 0; e--) {
+        const r = Math.floor(random() * (e + 1));
+        const tmp = order[e]; order[e] = order[r]; order[r] = tmp;
+      }
+
+      const parent = new Int32Array(nodes.length);
+      for (let i = 0; i < nodes.length; i++) parent[i] = i;
+      const find = (x: number): number => {
+        while (parent[x] !== x) {
+          parent[x] = parent[parent[x]];
+          x = parent[x];
+        }
+        return x;
+      };
+
+      const tree: number[][] = nodes.map(() => []);
+      let treeEdges = 0;
+      for (let k = 0; k < edgeCount && treeEdges < nodes.length - 1; k++) {
+        const u = edges[order[k] * 2];
+        const v = edges[order[k] * 2 + 1];
+        const ru = find(u);
+        const rv = find(v);
+        if (ru === rv) continue;
+        parent[ru] = rv;
+        tree[u].push(v);
+        tree[v].push(u);
+        treeEdges++;
+      }
+      if (treeEdges < nodes.length - 1) return null; // Merged region is not connected
+
+      // Root the tree and accumulate subtree populations
+      const treeParent = new Int32Array(nodes.length).fill(-1);
+      const visitOrder: number[] = [0];
+      treeParent[0] = 0;
+      for (let k = 0; k < visitOrder.length; k++) {
+        const u = visitOrder[k];
+        for (const v of tree[u]) {
+          if (treeParent[v] === -1) {
+            treeParent[v] = u;
+            visitOrder.push(v);
+          }
+        }
+      }
+
+      const subtreePop = new Float64Array(nodes.length);
+      for (let k = visitOrder.length - 1; k >= 0; k--) {
+        const u = visitOrder[k];
+        subtreePop[u] += population.get(nodes[u]) || 0;
+        if (k > 0) subtreePop[treeParent[u]] += subtreePop[u];
+      }
+
+      // Candidate cuts: the edge above each non-root node
+      const balancedCuts: number[] = [];
+      let bestCut = -1;
+      let bestDeviation = currentDeviation;
+      for (let k = 1; k < visitOrder.length; k++) {
+        const u = visitOrder[k];
+        const deviation = pairDeviation(subtreePop[u], regionPop - subtreePop[u]);
+        if (deviation <= maxDeviation) balancedCuts.push(u);
+        if (deviation < bestDeviation) {
+          bestDeviation = deviation;
+          bestCut = u;
+        }
+      }
+
+      let cut = -1;
+      if (balancedCuts.length > 0) {
+        cut = balancedCuts[Math.floor(random() * balancedCuts.length)];
+      } else if (!strict && bestCut !== -1) {
+        cut = bestCut;
+      }
+      if (cut === -1) continue;
+
+      // Collect the subtree below the cut edge
+      const side = new Set<number>([nodes[cut]]);
+      const stack = [cut];
+      while (stack.length > 0) {
+        const u = stack.pop()!;
+        for (const v of tree[u]) {
+          if (treeParent[v] === u) {
+            side.add(nodes[v]);
+            stack.push(v);
+          }
+        }
+      }
+      return side;
+    }
+
+    return null;
+  };
+
+  const step = (strict: boolean) => {
+    const pair = pickDistrictPair();
+    if (!pair) return;
+    const [a, b] = pair;
+
+    const side = splitRegion(a, b, strict);
+    if (!side) return; // Rejected proposal: the chain stays put
+
+    const merged = [...members.get(a)!, ...members.get(b)!];
+    members.set(a, new Set());
+    members.set(b, new Set());
+    districtPop[a] = 0;
+    districtPop[b] = 0;
+    merged.forEach(id => {
+      const d = side.has(id) ? a : b;
+      assignment.set(id, d);
+      members.get(d)!.add(id);
+      districtPop[d] += population.get(id) || 0;
+    });
+  };
+
+  // Burn-in towards a balanced plan
+  for (let i = 0; i < burnInSteps && !isBalanced(); i++) {
+    step(false);
+  }
+
+  if (!isBalanced()) {
+    let worst = 0;
+    for (let d = 1; d <= districtCount; d++) worst = Math.max(worst, Math.abs(districtPop[d] - ideal) / ideal);
+    throw new Error(`ReCom burn-in failed: worst district is ${(worst * 100).toFixed(1)}% from the ideal population after ${burnInSteps} steps (tolerance ${(populationTolerance * 100).toFixed(1)}%)`);
+  }
+
+  const plans: Map<number, number>[] = [];
+
+  for (let s = 0; s < samples; s++) {
+    for (let i = 0; i < stepsPerSample; i++) {
+      step(true);
+    }
+    plans.push(new Map(assignment));
+  }
+
+  return plans;
 }
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCompactness, calculatePartisanFairness, calculatePopulationEquality, calculateSeatsVotes, competitiveBand, runStateAnalysis, seatsAtSwing, summarizeSplits, twoPartyMargin } from './analysis';
+
+describe('calculateCompactness', () => {
+  it('scores a square', () => {
+    const square = [0, 0, 10, 0, 10, 10, 0, 10];
+    const { polsbyPopper, reock, convexHullRatio } = calculateCompactness({ area: 100, perimeter: 40, points: square });
+    expect(polsbyPopper).toBeCloseTo(Math.PI / 4);
+    expect(reock).toBeCloseTo(100 / (Math.PI * 50)); // Circumscribed circle through the corners
+    expect(convexHullRatio).toBeCloseTo(1);
+  });
+
+  it('penalises a concave L shape against its hull', () => {
+    const lShape = [0, 0, 20, 0, 20, 10, 10, 10, 10, 20, 0, 20];
+    const { convexHullRatio, polsbyPopper } = calculateCompactness({ area: 300, perimeter: 80, points: lShape });
+    expect(convexHullRatio).toBeCloseTo(300 / 350);
+    expect(polsbyPopper).toBeLessThan(Math.PI / 4);
+  });
+
+  it('returns zeros for empty or degenerate districts', () => {
+    expect(calculateCompactness({ area: 0, perimeter: 0, points: [] })).toEqual({ polsbyPopper: 0, reock: 0, convexHullRatio: 0 });
+  });
+});
+
+describe('summarizeSplits', () => {
+  it('counts split counties and the extra districts each spans', () => {
+    const countyDistricts = new Map([[1, new Set([1])], [2, new Set([1, 2])], [3, new Set([1, 2, 3])]]);
+    expect(summarizeSplits(countyDistricts)).toEqual({ groups: 3, splitGroups: 2, splits: 3 });
+  });
+
+  it('reports no splits for an empty plan', () => {
+    expect(summarizeSplits(new Map())).toEqual({ groups: 0, splitGroups: 0, splits: 0 });
+  });
+});
+
+describe('calculatePartisanFairness', () => {
+  const plan = (...demShares: number[]) => demShares.map(share => ({ demVotes: share * 100, repVotes: (1 - share) * 100 }));
+
+  it('scores a symmetric plan as neutral', () => {
+    const fairness = calculatePartisanFairness(plan(0.6, 0.4, 0.6, 0.4));
+    expect(fairness.demVoteShare).toBeCloseTo(0.5);
+    expect(fairness.demSeats).toBe(2);
+    expect(fairness.efficiencyGap).toBeCloseTo(0);
+    expect(fairness.meanMedian).toBeCloseTo(0);
+    expect(fairness.partisanBias).toBeCloseTo(0);
+    expect(fairness.declination).toBeCloseTo(0);
+    // Identical winning shares have no spread to test against
+    expect(fairness.lopsidedMargins).toEqual({ difference: 0, tStatistic: null });
+  });
+
+  it('flags a plan that packs Democratic voters as favouring Republicans', () => {
+    const fairness = calculatePartisanFairness(plan(0.9, 0.4, 0.4, 0.4));
+    expect(fairness.demSeats).toBe(1);
+    expect(fairness.efficiencyGap).toBeCloseTo((159 - 37) / 400);
+    expect(fairness.meanMedian).toBeCloseTo(0.125);
+    expect(fairness.partisanBias).toBeCloseTo(0.25);
+    expect(fairness.declination).toBeGreaterThan(0);
+    expect(fairness.lopsidedMargins).toBeNull();
+  });
+
+  it('leaves declination undefined when one party wins every seat', () => {
+    expect(calculatePartisanFairness(plan(0.6, 0.7)).declination).toBeNull();
+  });
+});
+
+describe('calculateSeatsVotes', () => {
+  const plan = (...demShares: number[]) => demShares.map(share => ({ demVotes: share * 1000, repVotes: (1 - share) * 1000 }));
+
+  it('counts seats under uniform swing', () => {
+    expect(seatsAtSwing([0.42, 0.53, 0.64], 0)).toBe(2);
+    expect(seatsAtSwing([0.42, 0.53, 0.64], 0.1)).toBe(3);
+    expect(seatsAtSwing([0.42, 0.53, 0.64], -0.2)).toBe(0);
+  });
+
+  it('samples the curve at each swing step', () => {
+    const curve = calculateSeatsVotes(plan(0.42, 0.53, 0.64));
+    expect(curve.districtCount).toBe(3);
+    expect(curve.points).toHaveLength(31);
+    expect(curve.points[0].swing).toBeCloseTo(-0.15);
+    expect(curve.points[15]).toEqual({ swing: 0, demVoteShare: expect.closeTo(0.53), demSeats: 2 });
+    // One seat changes hands within +-5 points of the observed vote
+    expect(curve.responsiveness).toBeCloseTo(1 / 3 / 0.1);
+  });
+
+  it('reports no asymmetry for a mirrored plan', () => {
+    expect(calculateSeatsVotes(plan(0.35, 0.65), 0.1).symmetry).toBeCloseTo(0);
+  });
+
+  it('favours Republicans when Democratic seats need more votes', () => {
+    expect(calculateSeatsVotes(plan(0.9, 0.45, 0.45, 0.45)).symmetry).toBeGreaterThan(0);
+  });
+
+  it('returns a flat curve without votes', () => {
+    const curve = calculateSeatsVotes([]);
+    expect(curve.districtCount).toBe(0);
+    expect(curve.responsiveness).toBe(0);
+  });
+});
+
+describe('competitiveness', () => {
+  it('measures the two-party margin in points', () => {
+    expect(twoPartyMargin(520, 480)).toBeCloseTo(4);
+    expect(twoPartyMargin(300, 700)).toBeCloseTo(40);
+    expect(twoPartyMargin(0, 0)).toBe(0);
+  });
+
+  it('picks the narrowest band containing the margin', () => {
+    expect(competitiveBand(4)).toBe(5);
+    expect(competitiveBand(5)).toBe(5);
+    expect(competitiveBand(7)).toBe(10);
+    expect(competitiveBand(12)).toBeNull();
+    expect(competitiveBand(12, [20, 15])).toBe(15);
+  });
+
+  it('counts competitive seats per band on current and projected votes', () => {
+    const district = (id: number, demVotes: number, projectedDemVotes: number) => ({
+      id, population: 1000, demVotes, repVotes: 1000 - demVotes, projectedDemVotes, projectedRepVotes: 1000 - projectedDemVotes, white: 1000, black: 0, hispanic: 0
+    });
+    const analysis = runStateAnalysis({
+      stateId: 6,
+      countyDistricts: new Map(),
+      districts: [district(1, 520, 560), district(2, 460, 480), district(3, 700, 520)],
+      competitiveBands: [10, 5]
+    });
+    expect(analysis.competitiveSeats).toEqual([
+      { band: 5, seats: 1, projectedSeats: 2 },
+      { band: 10, seats: 2, projectedSeats: 2 }
+    ]);
+  });
+});
+
+describe('calculatePopulationEquality', () => {
+  it('reports deviations from the ideal population', () => {
+    const equality = calculatePopulationEquality([{ id: 2, population: 1100 }, { id: 1, population: 900 }], 2, 5);
+    expect(equality.idealPopulation).toBe(1000);
+    expect(equality.districts.map(d => [d.districtId, d.deviation, d.percentDeviation])).toEqual([[1, -100, -10], [2, 100, 10]]);
+    expect(equality.range).toBe(20);
+    expect(equality.rangePopulation).toBe(200);
+    expect(equality.meanAbsoluteDeviation).toBe(10);
+    expect(equality.withinTolerance).toBe(false);
+  });
+
+  it('meets a zero congressional tolerance within one person', () => {
+    // Ideal is 1000.5, so neither district can hit it exactly
+    expect(calculatePopulationEquality([{ id: 1, population: 1000 }, { id: 2, population: 1001 }], 2).withinTolerance).toBe(true);
+    expect(calculatePopulationEquality([{ id: 1, population: 999 }, { id: 2, population: 1002 }], 2).withinTolerance).toBe(false);
+  });
+
+  it('fails apportioned districts with no precincts', () => {
+    const equality = calculatePopulationEquality([{ id: 1, population: 1000 }], 2, 5);
+    expect(equality.idealPopulation).toBe(500);
+    expect(equality.withinTolerance).toBe(false);
+  });
+
+  it('passes an empty plan', () => {
+    expect(calculatePopulationEquality([], 0)).toMatchObject({ idealPopulation: 0, districts: [], withinTolerance: true });
+  });
+});
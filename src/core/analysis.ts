@@ -1,4 +1,9 @@
 import type { PrecinctStats } from './types';
+import { convexHull, minimumEnclosingCircle, ringArea } from './geometry';
+import { STATE_APPORTIONMENT } from './Apportionment';
+import { classifyOpportunity, summarizeOpportunity, DEFAULT_VRA_OPTIONS } from './vra';
+import type { OpportunityFlags, OpportunitySummary, VraOptions } from './vra';
+import type { DistrictRetention, RetentionSummary } from './retention';
 
 export interface DistrictStats {
   id: number;
@@ -11,11 +16,61 @@ export interface DistrictStats {
   education: number; // Avg % Bachelors+
   income: number; // Avg Median Household Income
   efficiencyGap: number;
+  polsbyPopper: number; // 4πA / P²
+  reock: number; // Area / area of minimum enclosing circle
+  convexHullRatio: number; // Area / area of convex hull
+  opportunity: OpportunityFlags; // VRA majority-minority / coalition flags
+  projectedDemVotes: number; // After the RUN_ANALYSIS partisan swing projection
+  projectedRepVotes: number;
+  margin: number; // |Dem - Rep| two-party margin in points
+  projectedMargin: number;
+  competitiveBand: number | null; // Narrowest configured band containing the margin, null if none
+  coreRetention?: DistrictRetention; // Only when a baseline plan is set
   history?: PrecinctStats[];
 }
 
-export function runAnalysis(data: { districts: Omit<DistrictStats, 'efficiencyGap'>[] }): DistrictStats[] {
-  const { districts } = data;
+export interface DistrictGeometry {
+  area: number;
+  perimeter: number; // Outer boundary only: borders shared between member precincts are excluded
+  points: number[]; // Flat vertex list (precinct hull vertices are enough)
+}
+
+export function calculateCompactness(geometry: DistrictGeometry): Pick<DistrictStats, 'polsbyPopper' | 'reock' | 'convexHullRatio'> {
+  const { area, perimeter, points } = geometry;
+  if (area <= 0 || points.length < 6) {
+    return { polsbyPopper: 0, reock: 0, convexHullRatio: 0 };
+  }
+
+  const hull = convexHull(points);
+  const hullArea = ringArea(hull);
+  const circle = minimumEnclosingCircle(hull);
+
+  return {
+    polsbyPopper: perimeter > 0 ? (4 * Math.PI * area) / (perimeter * perimeter) : 0,
+    reock: circle.r > 0 ? area / (Math.PI * circle.r * circle.r) : 0,
+    convexHullRatio: hullArea > 0 ? Math.min(1, area / hullArea) : 0
+  };
+}
+
+// Competitiveness bands in margin points; a district within 5 points is also within 10
+export const DEFAULT_COMPETITIVE_BANDS = [5, 10];
+
+export function twoPartyMargin(demVotes: number, repVotes: number): number {
+  const total = demVotes + repVotes;
+  return total > 0 ? (Math.abs(demVotes - repVotes) / total) * 100 : 0;
+}
+
+export function competitiveBand(margin: number, bands: number[] = DEFAULT_COMPETITIVE_BANDS): number | null {
+  const band = [...bands].sort((a, b) => a - b).find(b => margin <= b);
+  return band ?? null;
+}
+
+export function runAnalysis(data: {
+  districts: Omit<DistrictStats, 'efficiencyGap' | 'opportunity' | 'margin' | 'projectedMargin' | 'competitiveBand'>[];
+  vra?: VraOptions;
+  competitiveBands?: number[];
+}): DistrictStats[] {
+  const { districts, vra = DEFAULT_VRA_OPTIONS, competitiveBands = DEFAULT_COMPETITIVE_BANDS } = data;
   return districts.map(d => {
     // Calculate Efficiency Gap
     // EG = (Wasted Dem - Wasted Rep) / Total Votes
@@ -38,11 +93,283 @@ export function runAnalysis(data: { districts: Omit<DistrictStats, 'efficiencyGa
 
     return {
       ...d,
-      efficiencyGap: eg
+      efficiencyGap: eg,
+      opportunity: classifyOpportunity(d, vra),
+      margin: twoPartyMargin(d.demVotes, d.repVotes),
+      projectedMargin: twoPartyMargin(d.projectedDemVotes, d.projectedRepVotes),
+      competitiveBand: competitiveBand(twoPartyMargin(d.demVotes, d.repVotes), competitiveBands)
     };
   });
 }
 
+// Statewide efficiency gap: (wasted Dem - wasted Rep) / total votes, positive when Democratic votes are wasted more
+export function statewideEfficiencyGap(districts: { demVotes: number; repVotes: number }[]): number {
+  let wastedDem = 0;
+  let wastedRep = 0;
+  let totalVotes = 0;
+
+  districts.forEach(d => {
+    const votes = d.demVotes + d.repVotes;
+    if (votes <= 0) return;
+    const winThreshold = Math.floor(votes / 2) + 1;
+    if (d.demVotes > d.repVotes) {
+      wastedDem += d.demVotes - winThreshold;
+      wastedRep += d.repVotes;
+    } else {
+      wastedDem += d.demVotes;
+      wastedRep += d.repVotes - winThreshold;
+    }
+    totalVotes += votes;
+  });
+
+  return totalVotes > 0 ? (wastedDem - wastedRep) / totalVotes : 0;
+}
+
+// Statewide partisan fairness. Signed metrics are positive when the map favours Republicans,
+// matching the efficiency gap convention above.
+export interface PartisanFairness {
+  demVoteShare: number; // Two-party statewide share
+  demSeats: number;
+  efficiencyGap: number;
+  meanMedian: number; // Mean minus median district Dem share
+  partisanBias: number; // Rep seat share minus 1/2 when the statewide vote is tied (uniform swing)
+  declination: number | null; // Null unless both parties win a seat
+  lopsidedMargins: { difference: number; tStatistic: number | null } | null; // Dem minus Rep mean winning share; null without two wins each
+}
+
+// Two-party Dem share per district, skipping districts with no votes
+export function districtDemShares(districts: { demVotes: number; repVotes: number }[]): number[] {
+  return districts
+    .filter(d => d.demVotes + d.repVotes > 0)
+    .map(d => d.demVotes / (d.demVotes + d.repVotes));
+}
+
+// Dem seats after shifting every district's share by `swing` (uniform partisan swing)
+export function seatsAtSwing(shares: number[], swing: number): number {
+  return shares.filter(v => v + swing > 0.5).length;
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const variance = (values: number[]) => {
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) * (v - m), 0) / (values.length - 1);
+};
+
+export function calculatePartisanFairness(districts: { demVotes: number; repVotes: number }[]): PartisanFairness {
+  const shares = districtDemShares(districts);
+  let demVotes = 0;
+  let totalVotes = 0;
+  districts.forEach(d => {
+    demVotes += d.demVotes;
+    totalVotes += d.demVotes + d.repVotes;
+  });
+
+  const n = shares.length;
+  const demWins = shares.filter(v => v > 0.5);
+  const repWins = shares.filter(v => v <= 0.5);
+
+  let meanMedian = 0;
+  let partisanBias = 0;
+  if (n > 0) {
+    const sorted = [...shares].sort((a, b) => a - b);
+    const median = n % 2 ? sorted[(n - 1) / 2] : (sorted[n / 2 - 1] + sorted[n / 2]) / 2;
+    const meanShare = mean(shares);
+    meanMedian = meanShare - median;
+    partisanBias = 0.5 - seatsAtSwing(shares, 0.5 - meanShare) / n;
+  }
+
+  // Warrington's declination: angle between the winning-share centroids of each party's seats
+  let declination: number | null = null;
+  if (demWins.length > 0 && repWins.length > 0) {
+    const thetaDem = Math.atan((2 * mean(demWins) - 1) / (demWins.length / n));
+    const thetaRep = Math.atan((1 - 2 * mean(repWins)) / (repWins.length / n));
+    declination = (2 * (thetaDem - thetaRep)) / Math.PI;
+  }
+
+  // Wang's lopsided margins test (Welch t statistic on winning shares)
+  let lopsidedMargins: PartisanFairness['lopsidedMargins'] = null;
+  if (demWins.length > 1 && repWins.length > 1) {
+    const repWinShares = repWins.map(v => 1 - v);
+    const difference = mean(demWins) - mean(repWinShares);
+    const standardError = Math.sqrt(variance(demWins) / demWins.length + variance(repWinShares) / repWinShares.length);
+    lopsidedMargins = { difference, tStatistic: standardError > 0 ? difference / standardError : null };
+  }
+
+  return {
+    demVoteShare: totalVotes > 0 ? demVotes / totalVotes : 0,
+    demSeats: demWins.length,
+    efficiencyGap: statewideEfficiencyGap(districts),
+    meanMedian,
+    partisanBias,
+    declination,
+    lopsidedMargins
+  };
+}
+
+export interface SeatsVotesPoint {
+  swing: number; // Added to every district's Dem share
+  demVoteShare: number; // Statewide two-party share after the swing
+  demSeats: number;
+}
+
+export interface SeatsVotesCurve {
+  districtCount: number; // Districts with votes
+  points: SeatsVotesPoint[]; // Ordered by swing
+  responsiveness: number; // Change in seat share per unit of vote share around the observed result
+  symmetry: number; // Mean (Rep seat share at vote v) - (Dem seat share at vote v); positive favours Republicans
+}
+
+// Seats-votes curve under uniform partisan swing
+export function calculateSeatsVotes(districts: { demVotes: number; repVotes: number }[], maxSwing = 0.15, step = 0.01, responsivenessWindow = 0.05): SeatsVotesCurve {
+  const shares = districtDemShares(districts);
+  const n = shares.length;
+  const { demVoteShare } = calculatePartisanFairness(districts);
+
+  const points: SeatsVotesPoint[] = [];
+  const steps = Math.round(maxSwing / step);
+  for (let i = -steps; i <= steps; i++) {
+    const swing = i * step;
+    points.push({ swing, demVoteShare: demVoteShare + swing, demSeats: seatsAtSwing(shares, swing) });
+  }
+
+  if (n === 0) return { districtCount: 0, points, responsiveness: 0, symmetry: 0 };
+
+  const responsiveness = (seatsAtSwing(shares, responsivenessWindow) - seatsAtSwing(shares, -responsivenessWindow)) / n / (2 * responsivenessWindow);
+
+  // Dem seat share if the statewide Dem vote were v
+  const seatShareAt = (v: number) => seatsAtSwing(shares, v - demVoteShare) / n;
+  let asymmetry = 0;
+  points.forEach(p => {
+    asymmetry += (1 - seatShareAt(1 - p.demVoteShare)) - seatShareAt(p.demVoteShare);
+  });
+
+  return { districtCount: n, points, responsiveness, symmetry: asymmetry / points.length };
+}
+
+export interface SplitSummary {
+  groups: number; // Units considered (e.g. counties)
+  splitGroups: number; // Units spanning more than one district
+  splits: number; // Sum over units of (districts spanned - 1)
+}
+
+// Maximum |deviation| from the ideal district population, in percent
+export type PlanType = 'congressional' | 'legislative';
+export const DEFAULT_POPULATION_TOLERANCES: Record<PlanType, number> = { congressional: 0, legislative: 5 };
+
+export interface DistrictDeviation {
+  districtId: number;
+  population: number;
+  deviation: number; // population - ideal
+  percentDeviation: number; // deviation / ideal * 100
+}
+
+export interface PopulationEquality {
+  idealPopulation: number; // State population / apportioned districts
+  districts: DistrictDeviation[]; // By district id
+  range: number; // Max - min percent deviation (the "overall range")
+  rangePopulation: number; // Largest - smallest district population
+  meanAbsoluteDeviation: number; // Percent
+  tolerance: number; // Percent, ±
+  withinTolerance: boolean;
+}
+
+// The ideal population is fractional, so a district within one person of it always passes,
+// which is how a 0% congressional standard is met in practice
+export function calculatePopulationEquality(
+  districts: { id: number; population: number }[],
+  districtCount: number,
+  tolerance: number = DEFAULT_POPULATION_TOLERANCES.congressional
+): PopulationEquality {
+  const total = districts.reduce((sum, d) => sum + d.population, 0);
+  const ideal = districtCount > 0 ? total / districtCount : 0;
+  const allowed = Math.max((ideal * tolerance) / 100, 1);
+
+  const deviations: DistrictDeviation[] = districts
+    .map(d => ({
+      districtId: d.id,
+      population: d.population,
+      deviation: d.population - ideal,
+      percentDeviation: ideal > 0 ? ((d.population - ideal) / ideal) * 100 : 0
+    }))
+    .sort((a, b) => a.districtId - b.districtId);
+
+  if (deviations.length === 0) {
+    return { idealPopulation: ideal, districts: [], range: 0, rangePopulation: 0, meanAbsoluteDeviation: 0, tolerance, withinTolerance: true };
+  }
+
+  const percents = deviations.map(d => d.percentDeviation);
+  const pops = deviations.map(d => d.population);
+  return {
+    idealPopulation: ideal,
+    districts: deviations,
+    range: Math.max(...percents) - Math.min(...percents),
+    rangePopulation: Math.max(...pops) - Math.min(...pops),
+    meanAbsoluteDeviation: percents.reduce((sum, p) => sum + Math.abs(p), 0) / percents.length,
+    tolerance,
+    // Apportioned districts with no precincts at all are a deviation of -100%
+    withinTolerance: deviations.length >= districtCount && deviations.every(d => Math.abs(d.deviation) <= allowed)
+  };
+}
+
+export interface StateAnalysis {
+  stateId: number;
+  name: string;
+  districtCount: number; // Apportioned seats
+  countySplits: SplitSummary;
+  fairness: PartisanFairness;
+  opportunityDistricts: OpportunitySummary;
+  competitiveSeats: CompetitiveSeats[]; // One entry per band, narrowest first
+  populationEquality: PopulationEquality;
+  retention: RetentionSummary | null; // Against the baseline plan, null when none is set
+}
+
+export interface CompetitiveSeats {
+  band: number; // Margin in points
+  seats: number; // Districts within the band on current votes
+  projectedSeats: number; // ... and on swing-projected votes
+}
+
+export function summarizeSplits(groupDistricts: Map<number, Set<number>>): SplitSummary {
+  let splitGroups = 0;
+  let splits = 0;
+  groupDistricts.forEach(districts => {
+    if (districts.size > 1) {
+      splitGroups++;
+      splits += districts.size - 1;
+    }
+  });
+  return { groups: groupDistricts.size, splitGroups, splits };
+}
+
+export function runStateAnalysis(data: {
+  stateId: number;
+  countyDistricts: Map<number, Set<number>>;
+  districts: { id: number; population: number; demVotes: number; repVotes: number; projectedDemVotes: number; projectedRepVotes: number; white: number; black: number; hispanic: number }[];
+  vra?: VraOptions;
+  competitiveBands?: number[];
+  populationTolerance?: number; // Percent, see DEFAULT_POPULATION_TOLERANCES
+  retention?: RetentionSummary;
+}): StateAnalysis {
+  const { stateId, countyDistricts, districts, vra = DEFAULT_VRA_OPTIONS, competitiveBands = DEFAULT_COMPETITIVE_BANDS, populationTolerance, retention } = data;
+  const apportionment = STATE_APPORTIONMENT[stateId];
+  return {
+    stateId,
+    name: apportionment?.name ?? `State ${stateId}`,
+    districtCount: apportionment?.districts ?? 0,
+    countySplits: summarizeSplits(countyDistricts),
+    fairness: calculatePartisanFairness(districts),
+    opportunityDistricts: summarizeOpportunity(districts.map(d => classifyOpportunity(d, vra))),
+    competitiveSeats: [...competitiveBands].sort((a, b) => a - b).map(band => ({
+      band,
+      seats: districts.filter(d => d.demVotes + d.repVotes > 0 && twoPartyMargin(d.demVotes, d.repVotes) <= band).length,
+      projectedSeats: districts.filter(d => d.projectedDemVotes + d.projectedRepVotes > 0 && twoPartyMargin(d.projectedDemVotes, d.projectedRepVotes) <= band).length
+    })),
+    populationEquality: calculatePopulationEquality(districts, apportionment?.districts ?? districts.length, populationTolerance),
+    retention: retention ?? null
+  };
+}
+
 export function calculateLinearRegression(data: { x: number; y: number }[]): { slope: number; intercept: number; r2: number } {
   const n = data.length;
   if (n === 0) return { slope: 0, intercept: 0, r2: 0 };
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { exportBlockAssignment, parseBlockAssignment, validateBlockAssignment } from './blockAssignment';
+
+// Alaska (state 2) has one seat, California (state 6) fifty-two
+const precincts = [
+  { id: 1, stateId: 6, districtId: 601, geoid: '060010001' },
+  { id: 2, stateId: 6, districtId: 652, geoid: '060010002' },
+  { id: 3, stateId: 2, districtId: 201 },
+  { id: 4, stateId: 2, districtId: 200 }
+];
+
+describe('exportBlockAssignment', () => {
+  it('writes GEOIDs or internal ids with local district numbers', () => {
+    expect(exportBlockAssignment(precincts)).toBe('GEOID,DISTRICT\n060010001,1\n060010002,52\n3,1\n4,\n');
+  });
+});
+
+describe('parseBlockAssignment', () => {
+  it('skips a header and accepts quotes and mixed delimiters', () => {
+    expect(parseBlockAssignment('GEOID|CD\r\n"060010001",1\n\n060010002\t 52\n3,')).toEqual([
+      { line: 2, unitId: '060010001', district: '1' },
+      { line: 4, unitId: '060010002', district: '52' },
+      { line: 5, unitId: '3', district: '' }
+    ]);
+  });
+
+  it('keeps a headerless first row', () => {
+    expect(parseBlockAssignment('3,1\n')).toEqual([{ line: 1, unitId: '3', district: '1' }]);
+  });
+});
+
+describe('validateBlockAssignment', () => {
+  it('round-trips an exported plan', () => {
+    const report = validateBlockAssignment(parseBlockAssignment(exportBlockAssignment(precincts)), precincts);
+    expect(report.updates).toEqual([{ id: 1, districtId: 601 }, { id: 2, districtId: 652 }, { id: 3, districtId: 201 }]);
+    expect(report.unassigned).toEqual([4]);
+  });
+
+  it('reports unknown ids, invalid rows, duplicates and districts beyond apportionment', () => {
+    const rows = parseBlockAssignment('060010001,53\n060010002,x\n3,1\n3,2\n999,1\n');
+    const report = validateBlockAssignment(rows, precincts);
+    expect(report.updates).toEqual([]);
+    expect(report.unknownIds).toEqual(['999']);
+    expect(report.invalidRows).toEqual([2]);
+    expect(report.duplicateIds).toEqual(['3']);
+    expect(report.overApportionment).toEqual([{ stateId: 2, district: 2, precincts: 1 }, { stateId: 6, district: 53, precincts: 1 }]);
+    expect(report.unassigned).toEqual([1, 2, 3, 4]);
+  });
+});
@@ -0,0 +1,116 @@
+import { STATE_APPORTIONMENT } from './Apportionment';
+
+// Block-assignment files: two columns, unit id (precinct / GEOID) and district number within its state.
+// Global district ids are stateId * 100 + district, so only the local number is written.
+// Precincts loaded from a file are identified by their source GEOID, generated ones by their internal id.
+
+export const BLOCK_ASSIGNMENT_HEADER = ['GEOID', 'DISTRICT'];
+
+export interface BlockAssignmentRow {
+  line: number; // 1-based, for error messages
+  unitId: string;
+  district: string;
+}
+
+export interface BlockAssignmentReport {
+  updates: { id: number; districtId: number }[]; // Valid rows, as global district ids
+  unknownIds: string[]; // Ids not in the loaded data
+  unassigned: number[]; // Loaded precincts with no row, or a blank district
+  overApportionment: { stateId: number; district: number; precincts: number }[]; // District numbers above the state's seats
+  invalidRows: number[]; // Lines whose district isn't a positive integer
+  duplicateIds: string[]; // Ids listed more than once; the last row wins
+}
+
+// Precincts outside 1..districts of their state (e.g. a whole state still in its initial district) are left blank
+export function exportBlockAssignment(
+  precincts: Iterable<{ id: number; districtId: number; stateId: number; geoid?: string }>
+): string {
+  const lines = [BLOCK_ASSIGNMENT_HEADER.join(',')];
+  for (const p of precincts) {
+    const local = p.districtId - p.stateId * 100;
+    const seats = STATE_APPORTIONMENT[p.stateId]?.districts ?? 0;
+    lines.push(`${p.geoid ?? p.id},${local >= 1 && local <= seats ? local : ''}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+// Accepts comma, tab or pipe delimiters, optional quotes and an optional header row
+export function parseBlockAssignment(text: string): BlockAssignmentRow[] {
+  const rows: BlockAssignmentRow[] = [];
+  const lines = text.split(/\r?\n/);
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line) return;
+    const [unitId = '', district = ''] = line.split(/[,|\t]/).map(cell => cell.trim().replace(/^"(.*)"$/, '$1').trim());
+    // Header: the district column of the first non-empty row isn't numeric or blank
+    if (rows.length === 0 && district !== '' && isNaN(Number(district)) && isNaN(Number(unitId))) return;
+    rows.push({ line: i + 1, unitId, district });
+  });
+  return rows;
+}
+
+export function validateBlockAssignment(
+  rows: BlockAssignmentRow[],
+  precincts: Iterable<{ id: number; stateId: number; geoid?: string }>
+): BlockAssignmentReport {
+  const stateOf = new Map<number, number>();
+  const idOf = new Map<string, number>(); // unit id -> precinct id
+  for (const p of precincts) {
+    stateOf.set(p.id, p.stateId);
+    idOf.set(p.geoid ?? String(p.id), p.id);
+  }
+
+  const assigned = new Map<number, number>(); // precinct -> global district
+  const seen = new Set<string>();
+  const unknownIds: string[] = [];
+  const invalidRows: number[] = [];
+  const duplicateIds = new Set<string>();
+  const over = new Map<string, { stateId: number; district: number; precincts: number }>();
+
+  rows.forEach(row => {
+    if (seen.has(row.unitId)) duplicateIds.add(row.unitId);
+    seen.add(row.unitId);
+
+    const id = idOf.get(row.unitId);
+    const stateId = id === undefined ? undefined : stateOf.get(id);
+    if (id === undefined || stateId === undefined) {
+      unknownIds.push(row.unitId);
+      return;
+    }
+
+    if (row.district === '') {
+      assigned.delete(id); // Explicitly unassigned
+      return;
+    }
+    const district = Number(row.district);
+    if (!Number.isInteger(district) || district < 1) {
+      invalidRows.push(row.line);
+      assigned.delete(id);
+      return;
+    }
+
+    const seats = STATE_APPORTIONMENT[stateId]?.districts ?? 0;
+    if (district > seats) {
+      const key = `${stateId}:${district}`;
+      if (!over.has(key)) over.set(key, { stateId, district, precincts: 0 });
+      over.get(key)!.precincts++;
+      assigned.delete(id);
+      return;
+    }
+    assigned.set(id, stateId * 100 + district);
+  });
+
+  const unassigned: number[] = [];
+  stateOf.forEach((_, id) => {
+    if (!assigned.has(id)) unassigned.push(id);
+  });
+
+  return {
+    updates: Array.from(assigned, ([id, districtId]) => ({ id, districtId })),
+    unknownIds,
+    unassigned,
+    overApportionment: Array.from(over.values()).sort((a, b) => a.stateId - b.stateId || a.district - b.district),
+    invalidRows,
+    duplicateIds: Array.from(duplicateIds)
+  };
+}
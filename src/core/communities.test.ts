@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCommunitySplits, precinctsInPolygon } from './communities';
+
+describe('precinctsInPolygon', () => {
+  // Centroids on a 4 x 4 grid at (col, row)
+  const centroidOf = (id: number) => ({ x: (id - 1) % 4, y: Math.floor((id - 1) / 4) });
+  const all = Array.from({ length: 16 }, (_, i) => i + 1);
+
+  it('keeps precincts whose centroid is inside the ring', () => {
+    const triangle = [-0.5, -0.5, 4, -0.5, -0.5, 4];
+    expect(precinctsInPolygon(triangle, () => all, centroidOf)).toEqual([1, 2, 3, 4, 5, 6, 7, 9, 10, 13]);
+  });
+
+  it('searches only the ring bounding box', () => {
+    const boxes: number[][] = [];
+    precinctsInPolygon([0.5, 0.5, 2.5, 0.5, 2.5, 1.5], bbox => { boxes.push(bbox); return all; }, centroidOf);
+    expect(boxes).toEqual([[0.5, 0.5, 2.5, 1.5]]);
+  });
+
+  it('returns nothing for a degenerate ring', () => {
+    expect(precinctsInPolygon([0, 0, 1, 1], () => all, centroidOf)).toEqual([]);
+  });
+});
+
+describe('calculateCommunitySplits', () => {
+  const districts = new Map([[1, 1], [2, 1], [3, 2], [4, 3]]);
+  const population = (id: number) => id * 100;
+
+  it('reports the districts a community spans, largest first', () => {
+    const [split] = calculateCommunitySplits([{ id: 'c', name: 'Valley', precinctIds: [1, 2, 3] }], id => districts.get(id), population);
+    expect(split).toEqual({
+      id: 'c',
+      name: 'Valley',
+      population: 600,
+      districts: [{ districtId: 1, population: 300 }, { districtId: 2, population: 300 }],
+      splits: 1,
+      largestShare: 0.5
+    });
+  });
+
+  it('treats a whole or unassigned community as unsplit', () => {
+    const splits = calculateCommunitySplits([
+      { id: 'a', name: 'Whole', precinctIds: [1, 2] },
+      { id: 'b', name: 'Elsewhere', precinctIds: [99] }
+    ], id => districts.get(id), population);
+    expect(splits.map(s => [s.splits, s.largestShare])).toEqual([[0, 1], [0, 1]]);
+  });
+});
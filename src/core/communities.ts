@@ -0,0 +1,74 @@
+import { pointInRing } from './geometry';
+
+// Communities of interest: named precinct groups that plans should keep in one district
+
+export interface Community {
+  id: string;
+  name: string;
+  precinctIds: number[];
+  polygon?: number[]; // Flat [x0, y0, ...] ring in map space when the community was drawn
+}
+
+export interface CommunityDistrictShare {
+  districtId: number;
+  population: number;
+}
+
+export interface CommunitySplit {
+  id: string;
+  name: string;
+  population: number;
+  districts: CommunityDistrictShare[]; // Largest share first
+  splits: number; // Districts spanned - 1
+  largestShare: number; // Share of the community's population in its largest piece
+}
+
+// Precincts whose centroid falls inside `ring`; `search` narrows the candidates to the ring's bounding box
+export function precinctsInPolygon(
+  ring: ArrayLike<number>,
+  search: (bbox: [number, number, number, number]) => number[],
+  centroidOf: (id: number) => { x: number; y: number } | undefined
+): number[] {
+  if (ring.length < 6) return [];
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (let i = 0; i < ring.length; i += 2) {
+    minX = Math.min(minX, ring[i]);
+    maxX = Math.max(maxX, ring[i]);
+    minY = Math.min(minY, ring[i + 1]);
+    maxY = Math.max(maxY, ring[i + 1]);
+  }
+  return search([minX, minY, maxX, maxY]).filter(id => {
+    const c = centroidOf(id);
+    return c !== undefined && pointInRing(c.x, c.y, ring);
+  });
+}
+
+// Precincts without an assignment (e.g. from another data load) are ignored
+export function calculateCommunitySplits(
+  communities: Community[],
+  districtOf: (id: number) => number | undefined,
+  populationOf: (id: number) => number
+): CommunitySplit[] {
+  return communities.map(community => {
+    const shares = new Map<number, number>();
+    let population = 0;
+    community.precinctIds.forEach(id => {
+      const districtId = districtOf(id);
+      if (districtId === undefined) return;
+      const pop = populationOf(id);
+      population += pop;
+      shares.set(districtId, (shares.get(districtId) ?? 0) + pop);
+    });
+
+    const districts = Array.from(shares, ([districtId, pop]) => ({ districtId, population: pop }))
+      .sort((a, b) => b.population - a.population);
+    return {
+      id: community.id,
+      name: community.name,
+      population,
+      districts,
+      splits: Math.max(0, districts.length - 1),
+      largestShare: population > 0 ? districts[0].population / population : 1
+    };
+  });
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { Feature, MultiPolygon, Polygon, Position } from 'geojson';
+import type { DistrictStats } from './analysis';
+import { districtFeatureCollection, serializeDistricts, toKml } from './districtExport';
+
+// Canvas y points down; points left of the map can't be un-projected
+const invert = ([x, y]: [number, number]): [number, number] | null => (x < 0 ? null : [x, -y]);
+
+const ring = (x: number, y: number, size: number): Position[] => [[x, y], [x + size, y], [x + size, y + size], [x, y + size], [x, y]];
+const polygon = (...rings: Position[][]): Feature<Polygon> => ({ type: 'Feature', properties: {}, geometry: { type: 'Polygon', coordinates: rings } });
+
+const signedArea = (positions: Position[]) =>
+  positions.reduce((sum, [x1, y1], i) => {
+    const [x2, y2] = positions[(i + 1) % positions.length];
+    return sum + x1 * y2 - x2 * y1;
+  }, 0) / 2;
+
+const stats = { id: 602, population: 1000, opportunity: { majorityMinority: true, coalition: false }, history: [] } as unknown as DistrictStats;
+
+describe('districtFeatureCollection', () => {
+  const borders: [number, Feature<Polygon | MultiPolygon>][] = [
+    [602, polygon(ring(0, 0, 10), ring(3, 3, 4))],
+    [601, polygon(ring(20, 0, 10))],
+    [603, polygon(ring(-20, 0, 10))] // Entirely off the map
+  ];
+  const collection = districtFeatureCollection(borders, [stats], invert);
+
+  it('orders districts and drops those with no placeable geometry', () => {
+    expect(collection.features.map(f => f.id)).toEqual([601, 602]);
+  });
+
+  it('winds outer rings counter-clockwise and holes clockwise', () => {
+    const [outer, hole] = (collection.features[1].geometry as Polygon).coordinates;
+    expect(signedArea(outer)).toBeGreaterThan(0);
+    expect(signedArea(hole)).toBeLessThan(0);
+    expect(outer[1][1]).toBeLessThanOrEqual(0); // y flipped by invert
+  });
+
+  it('flattens district stats into scalar properties', () => {
+    expect(collection.features[1].properties).toEqual({
+      districtId: 602, stateId: 6, state: 'California', district: 2,
+      population: 1000, opportunity_majorityMinority: true, opportunity_coalition: false
+    });
+    expect(collection.features[0].properties).toEqual({ districtId: 601, stateId: 6, state: 'California', district: 1 });
+  });
+
+  it('serializes to KML with escaped names and hole boundaries', () => {
+    const kml = toKml(collection, 'Plan <A & B>');
+    expect(kml).toContain('<name>Plan &lt;A &amp; B&gt;</name>');
+    expect(kml).toContain('<name>California District 2</name>');
+    expect(kml.match(/<innerBoundaryIs>/g)).toHaveLength(1);
+    expect(kml).toContain('<Data name="opportunity_majorityMinority"><value>true</value></Data>');
+  });
+
+  it('serializes to GeoJSON and TopoJSON', () => {
+    expect(serializeDistricts(collection, 'geojson')).toBe(JSON.stringify(collection));
+    const topology = JSON.parse(serializeDistricts(collection, 'topojson'));
+    expect(topology.type).toBe('Topology');
+    expect(topology.objects.districts.geometries).toHaveLength(2);
+  });
+});
@@ -0,0 +1,121 @@
+import { topology } from 'topojson-server';
+import type { Feature, FeatureCollection, MultiPolygon, Polygon, Position } from 'geojson';
+import type { DistrictStats } from './analysis';
+import { STATE_APPORTIONMENT } from './Apportionment';
+
+// District boundary files for GIS software: lon/lat geometry with the district statistics as properties
+
+export type DistrictExportFormat = 'geojson' | 'topojson' | 'kml';
+
+export const DISTRICT_EXPORT_FORMATS: Record<DistrictExportFormat, { label: string; extension: string; mime: string }> = {
+  geojson: { label: 'GeoJSON', extension: 'geojson', mime: 'application/geo+json' },
+  topojson: { label: 'TopoJSON', extension: 'topojson', mime: 'application/json' },
+  kml: { label: 'KML', extension: 'kml', mime: 'application/vnd.google-earth.kml+xml' }
+};
+
+type DistrictProperties = Record<string, string | number | boolean | null>;
+
+// Nested stats become prefixed scalar columns (e.g. opportunity_coalition); arrays are left out
+function flattenProperties(value: object, prefix = '', out: DistrictProperties = {}): DistrictProperties {
+  Object.entries(value).forEach(([key, v]) => {
+    const name = prefix ? `${prefix}_${key}` : key;
+    if (v === null || typeof v === 'number' || typeof v === 'string' || typeof v === 'boolean') {
+      out[name] = v;
+    } else if (v && typeof v === 'object' && !Array.isArray(v)) {
+      flattenProperties(v, name, out);
+    }
+  });
+  return out;
+}
+
+const signedArea = (ring: Position[]) =>
+  ring.reduce((sum, [x1, y1], i) => {
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    return sum + x1 * y2 - x2 * y1;
+  }, 0) / 2;
+
+// Maps every position through `invert`, dropping points it can't place and rings left too short.
+// Canvas space has y pointing down, so rings are rewound to RFC 7946 order: outer counter-clockwise, holes clockwise.
+function unprojectPolygons(polygons: Position[][][], invert: (p: [number, number]) => [number, number] | null): Position[][][] {
+  return polygons
+    .map(polygon => polygon
+      .map(ring => ring.map(([x, y]) => invert([x, y])).filter((p): p is [number, number] => p !== null))
+      .filter(ring => ring.length >= 4)
+      .map((ring, i) => (signedArea(ring) > 0) === (i === 0) ? ring : ring.reverse()))
+    .filter(polygon => polygon.length > 0);
+}
+
+export function districtFeatureCollection(
+  borders: [number, Feature<Polygon | MultiPolygon>][],
+  stats: DistrictStats[],
+  invert: (point: [number, number]) => [number, number] | null
+): FeatureCollection<Polygon | MultiPolygon, DistrictProperties> {
+  const statsById = new Map(stats.map(s => [s.id, s]));
+  const features: Feature<Polygon | MultiPolygon, DistrictProperties>[] = [];
+
+  borders.forEach(([districtId, feature]) => {
+    const geometry = feature.geometry;
+    const polygons = unprojectPolygons(geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates, invert);
+    if (polygons.length === 0) return;
+
+    const stateId = Math.floor(districtId / 100);
+    const district = statsById.get(districtId);
+    const columns = district ? flattenProperties(district) : {};
+    delete columns.id; // Same as districtId
+    features.push({
+      type: 'Feature',
+      id: districtId,
+      properties: {
+        districtId,
+        stateId,
+        state: STATE_APPORTIONMENT[stateId]?.name ?? null,
+        district: districtId - stateId * 100,
+        ...columns
+      },
+      geometry: polygons.length === 1
+        ? { type: 'Polygon', coordinates: polygons[0] }
+        : { type: 'MultiPolygon', coordinates: polygons }
+    });
+  });
+
+  return { type: 'FeatureCollection', features: features.sort((a, b) => Number(a.id) - Number(b.id)) };
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+function kmlPolygon(polygon: Position[][]): string {
+  const ring = (positions: Position[]) =>
+    `<LinearRing><coordinates>${positions.map(([lon, lat]) => `${lon},${lat}`).join(' ')}</coordinates></LinearRing>`;
+  const [outer, ...holes] = polygon;
+  return `<Polygon><outerBoundaryIs>${ring(outer)}</outerBoundaryIs>${holes.map(h => `<innerBoundaryIs>${ring(h)}</innerBoundaryIs>`).join('')}</Polygon>`;
+}
+
+export function toKml(collection: FeatureCollection<Polygon | MultiPolygon, DistrictProperties>, name: string): string {
+  const placemarks = collection.features.map(feature => {
+    const props = feature.properties;
+    const polygons = feature.geometry.type === 'Polygon' ? [feature.geometry.coordinates] : feature.geometry.coordinates;
+    const data = Object.entries(props)
+      .map(([key, value]) => `<Data name="${escapeXml(key)}"><value>${escapeXml(String(value ?? ''))}</value></Data>`)
+      .join('');
+    const title = props.state ? `${props.state} District ${props.district}` : `District ${props.districtId}`;
+    return `<Placemark><name>${escapeXml(title)}</name><ExtendedData>${data}</ExtendedData><MultiGeometry>${polygons.map(kmlPolygon).join('')}</MultiGeometry></Placemark>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<kml xmlns="http://www.opengis.net/kml/2.2"><Document><name>${escapeXml(name)}</name>\n${placemarks.join('\n')}\n</Document></kml>\n`;
+}
+
+// TopoJSON shares each boundary between neighbouring districts as a single arc
+export function serializeDistricts(
+  collection: FeatureCollection<Polygon | MultiPolygon, DistrictProperties>,
+  format: DistrictExportFormat,
+  name = 'districts'
+): string {
+  switch (format) {
+    case 'geojson':
+      return JSON.stringify(collection);
+    case 'topojson':
+      return JSON.stringify(topology({ districts: collection }));
+    case 'kml':
+      return toKml(collection, name);
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { forecast, metricSeries, BASE_YEAR } from './forecast';
+import type { PrecinctStats } from './types';
+
+const series = (...points: [number, number][]) => points.map(([x, y]) => ({ x, y }));
+
+describe('forecast', () => {
+  it('extends an exact linear trend with no interval', () => {
+    expect(forecast(series([2000, 100], [2010, 200], [2020, 300]), 2030)).toEqual({ model: 'linear', year: 2030, value: 400, lower: 400, upper: 400 });
+  });
+
+  it('widens the interval around a noisy trend', () => {
+    const { value, lower, upper } = forecast(series([2000, 100], [2005, 170], [2010, 190], [2015, 280], [2020, 300]), 2030);
+    expect(lower).toBeLessThan(value);
+    expect(upper).toBeGreaterThan(value);
+    expect(upper - value).toBeCloseTo(value - lower);
+  });
+
+  it('compounds growth on the log-linear model', () => {
+    const result = forecast(series([2000, 100], [2010, 200], [2020, 400]), 2030, 'exponential');
+    expect(result.value).toBeCloseTo(800);
+  });
+
+  it('falls back to linear when a value cannot be logged', () => {
+    const result = forecast(series([2000, 0], [2010, 100], [2020, 200]), 2030, 'exponential');
+    expect(result.model).toBe('exponential');
+    expect(result.value).toBeCloseTo(300);
+  });
+
+  it('damps the trend below a straight-line extension', () => {
+    const data = series([1990, 100], [2000, 200], [2010, 300], [2020, 400]);
+    // Undamped Holt with full smoothing follows the last step exactly
+    expect(forecast(data, 2030, 'damped', { alpha: 1, beta: 1, phi: 1 }).value).toBeCloseTo(500);
+    const damped = forecast(data, 2040, 'damped').value;
+    expect(damped).toBeGreaterThan(400);
+    expect(damped).toBeLessThan(600);
+  });
+
+  it('returns zeros without data', () => {
+    expect(forecast([], 2030)).toEqual({ model: 'linear', year: 2030, value: 0, lower: 0, upper: 0 });
+  });
+});
+
+describe('metricSeries', () => {
+  const stats = (year: number, population: number): PrecinctStats => ({ year, population, demVotes: 0, repVotes: 0, white: 0, black: 0, hispanic: 0, education: 0, income: 0 });
+
+  it('appends the current value at the base year in order', () => {
+    expect(metricSeries([stats(2010, 90), stats(2000, 80)], 'population', 100)).toEqual(series([2000, 80], [2010, 90], [BASE_YEAR, 100]));
+  });
+
+  it('keeps a base-year history entry over the current value', () => {
+    expect(metricSeries([stats(BASE_YEAR, 95)], 'population', 100)).toEqual(series([BASE_YEAR, 95]));
+  });
+});
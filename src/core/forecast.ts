@@ -0,0 +1,145 @@
+import type { PrecinctStats } from './types';
+
+// Trend models for projecting a metric's history to a target year, with 95% prediction intervals
+
+export type TrendModel = 'linear' | 'exponential' | 'damped';
+
+export const TREND_MODELS: { id: TrendModel; label: string }[] = [
+  { id: 'linear', label: 'Linear' },
+  { id: 'exponential', label: 'Log-linear' },
+  { id: 'damped', label: 'Damped trend' }
+];
+
+// Year of the current (non-history) stats
+export const BASE_YEAR = 2020;
+
+export type ForecastMetric = 'population' | 'demVotes' | 'repVotes' | 'white' | 'black' | 'hispanic';
+
+// Same order as the stats and slopes arrays
+export const FORECAST_METRICS: ForecastMetric[] = ['population', 'demVotes', 'repVotes', 'white', 'black', 'hispanic'];
+
+export interface Forecast {
+  model: TrendModel;
+  year: number;
+  value: number;
+  lower: number; // 95% prediction interval
+  upper: number;
+}
+
+export interface DampedTrendOptions {
+  alpha: number; // Level smoothing
+  beta: number; // Trend smoothing
+  phi: number; // Damping per step (1 = undamped Holt)
+}
+
+export interface ProjectionOptions {
+  year: number;
+  model: TrendModel;
+}
+
+export const DEFAULT_PROJECTION: ProjectionOptions = { year: 2030, model: 'linear' };
+
+export const DEFAULT_DAMPED_TREND: DampedTrendOptions = { alpha: 0.5, beta: 0.3, phi: 0.9 };
+
+// Two-sided 95% Student t critical values for 1..30 degrees of freedom
+const T_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086,
+  2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042
+];
+const tCritical = (df: number) => (df < 1 ? Infinity : T_95[df - 1] ?? 1.96);
+
+// Time series of one metric: history followed by the current value at BASE_YEAR
+export function metricSeries(history: PrecinctStats[], metric: ForecastMetric, current?: number): { x: number; y: number }[] {
+  const series = history.map(h => ({ x: h.year, y: h[metric] }));
+  if (current !== undefined && !history.some(h => h.year === BASE_YEAR)) {
+    series.push({ x: BASE_YEAR, y: current });
+  }
+  return series.sort((a, b) => a.x - b.x);
+}
+
+// OLS fit with a prediction interval at x0
+const olsPredict = (data: { x: number; y: number }[], x0: number) => {
+  const n = data.length;
+  const meanX = data.reduce((s, d) => s + d.x, 0) / n;
+  const meanY = data.reduce((s, d) => s + d.y, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  data.forEach(d => {
+    sxx += (d.x - meanX) * (d.x - meanX);
+    sxy += (d.x - meanX) * (d.y - meanY);
+  });
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const intercept = meanY - slope * meanX;
+  const value = intercept + slope * x0;
+
+  if (n < 3 || sxx === 0) return { value, margin: 0 };
+
+  let sse = 0;
+  data.forEach(d => {
+    const r = d.y - (intercept + slope * d.x);
+    sse += r * r;
+  });
+  const s = Math.sqrt(sse / (n - 2));
+  const margin = tCritical(n - 2) * s * Math.sqrt(1 + 1 / n + ((x0 - meanX) * (x0 - meanX)) / sxx);
+  return { value, margin };
+};
+
+// Holt's damped trend over equally spaced steps; the interval widens with the square root
+// of the horizon from the one-step-ahead error (an approximation, not the exact state-space form)
+const dampedPredict = (data: { x: number; y: number }[], x0: number, options: DampedTrendOptions) => {
+  const { alpha, beta, phi } = options;
+  const n = data.length;
+  if (n === 1) return { value: data[0].y, margin: 0 };
+
+  const step = (data[n - 1].x - data[0].x) / (n - 1) || 1;
+  let level = data[0].y;
+  let trend = data[1].y - data[0].y;
+  let sse = 0;
+
+  for (let i = 1; i < n; i++) {
+    const predicted = level + phi * trend;
+    sse += (data[i].y - predicted) * (data[i].y - predicted);
+    const prevLevel = level;
+    level = alpha * data[i].y + (1 - alpha) * predicted;
+    trend = beta * (level - prevLevel) + (1 - beta) * phi * trend;
+  }
+
+  const h = Math.max(0, (x0 - data[n - 1].x) / step);
+  // Sum of phi^1..phi^h, continuous in h so off-grid target years interpolate
+  const damping = phi === 1 ? h : (phi * (1 - Math.pow(phi, h))) / (1 - phi);
+  const sigma = Math.sqrt(sse / Math.max(1, n - 1));
+  return { value: level + damping * trend, margin: 1.96 * sigma * Math.sqrt(Math.max(1, h)) };
+};
+
+export function forecast(
+  data: { x: number; y: number }[],
+  year: number,
+  model: TrendModel = 'linear',
+  damped: DampedTrendOptions = DEFAULT_DAMPED_TREND
+): Forecast {
+  if (data.length === 0) return { model, year, value: 0, lower: 0, upper: 0 };
+
+  switch (model) {
+    case 'exponential': {
+      // Fit in log space; zero/negative observations can't be logged, so fall back to linear
+      if (data.some(d => d.y <= 0)) return { ...forecast(data, year, 'linear'), model };
+      const { value, margin } = olsPredict(data.map(d => ({ x: d.x, y: Math.log(d.y) })), year);
+      return { model, year, value: Math.exp(value), lower: Math.exp(value - margin), upper: Math.exp(value + margin) };
+    }
+    case 'damped': {
+      const { value, margin } = dampedPredict(data, year, damped);
+      return { model, year, value, lower: value - margin, upper: value + margin };
+    }
+    case 'linear':
+    default: {
+      const { value, margin } = olsPredict(data, year);
+      return { model, year, value, lower: value - margin, upper: value + margin };
+    }
+  }
+}
+
+// Forecast every FORECAST_METRICS entry; `current` is the stats array ([pop, dem, rep, ...])
+export function forecastStats(history: PrecinctStats[], current: ArrayLike<number>, year: number, model: TrendModel = 'linear'): Forecast[] {
+  return FORECAST_METRICS.map((metric, i) => forecast(metricSeries(history, metric, current[i]), year, model));
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { convexHull, flattenPolygons, minimumEnclosingCircle, pointInPolygon, polygonArea, polygonCentroid, polygonPerimeter, ringArea, toPolygonCoordinates } from './geometry';
+
+describe('convexHull', () => {
+  it('drops interior and collinear points', () => {
+    const hull = convexHull([0, 0, 5, 0, 10, 0, 10, 10, 0, 10, 5, 5, 3, 7]);
+    expect(hull.length / 2).toBe(4);
+    expect(ringArea(hull)).toBeCloseTo(100);
+  });
+});
+
+describe('minimumEnclosingCircle', () => {
+  it('uses the widest pair when it spans all points', () => {
+    const circle = minimumEnclosingCircle([0, 0, 10, 0, 5, 1]);
+    expect(circle.x).toBeCloseTo(5);
+    expect(circle.y).toBeCloseTo(0);
+    expect(circle.r).toBeCloseTo(5);
+  });
+
+  it('circumscribes an equilateral triangle', () => {
+    const h = Math.sqrt(3) * 5;
+    const circle = minimumEnclosingCircle([0, 0, 10, 0, 5, h]);
+    expect(circle.r).toBeCloseTo(10 / Math.sqrt(3));
+  });
+});
+
+describe('multi-part polygons', () => {
+  // A 10 x 10 square with a 4 x 4 hole, plus a 2 x 2 island to the right
+  const donutAndIsland = [
+    [[[0, 0], [10, 0], [10, 10], [0, 10]], [[3, 3], [3, 7], [7, 7], [7, 3]]],
+    [[[20, 0], [22, 0], [22, 2], [20, 2]]]
+  ];
+  const shape = flattenPolygons(donutAndIsland);
+
+  it('flattens rings and parts into offsets', () => {
+    expect(Array.from(shape.rings)).toEqual([0, 8, 16]);
+    expect(Array.from(shape.parts)).toEqual([0, 2]);
+  });
+
+  it('subtracts holes from the area but counts their boundary', () => {
+    expect(polygonArea(shape)).toBeCloseTo(100 - 16 + 4);
+    expect(polygonPerimeter(shape)).toBeCloseTo(40 + 16 + 8);
+  });
+
+  it('weights the centroid by part area', () => {
+    const { x, y } = polygonCentroid(shape);
+    expect(x).toBeCloseTo((5 * 84 + 21 * 4) / 88);
+    expect(y).toBeCloseTo((5 * 84 + 1 * 4) / 88);
+  });
+
+  it('excludes holes and includes islands', () => {
+    expect(pointInPolygon(1, 1, shape)).toBe(true);
+    expect(pointInPolygon(5, 5, shape)).toBe(false);
+    expect(pointInPolygon(21, 1, shape)).toBe(true);
+    expect(pointInPolygon(15, 1, shape)).toBe(false);
+  });
+
+  it('round-trips to closed GeoJSON rings', () => {
+    const polygons = toPolygonCoordinates(shape);
+    expect(polygons).toHaveLength(2);
+    expect(polygons[0][1]).toEqual([[3, 3], [3, 7], [7, 7], [7, 3], [3, 3]]);
+    expect(flattenPolygons(polygons.map(polygon => polygon.map(ring => ring.slice(0, -1))))).toEqual(shape);
+  });
+
+  it('drops a part whose outer ring is degenerate', () => {
+    expect(toPolygonCoordinates(flattenPolygons([[[[0, 0], [1, 1]]]]))).toEqual([]);
+  });
+});
@@ -0,0 +1,234 @@
+import { createRng } from './random';
+
+// Planar helpers over flat [x0, y0, x1, y1, ...] rings in canvas space
+
+export function ringArea(coords: ArrayLike<number>): number {
+  let sum = 0;
+  const n = coords.length / 2;
+  for (let i = 0; i < n; i++) {
+    const j = (i + 1) % n;
+    sum += coords[i * 2] * coords[j * 2 + 1] - coords[j * 2] * coords[i * 2 + 1];
+  }
+  return Math.abs(sum) / 2;
+}
+
+export function ringPerimeter(coords: ArrayLike<number>): number {
+  let sum = 0;
+  const n = coords.length / 2;
+  for (let i = 0; i < n; i++) {
+    const j = (i + 1) % n;
+    sum += Math.hypot(coords[j * 2] - coords[i * 2], coords[j * 2 + 1] - coords[i * 2 + 1]);
+  }
+  return sum;
+}
+
+// Andrew's monotone chain; returns the hull as a flat counter-clockwise ring
+export function convexHull(points: ArrayLike<number>): number[] {
+  const n = points.length / 2;
+  const order = Array.from({ length: n }, (_, i) => i);
+  order.sort((a, b) => points[a * 2] - points[b * 2] || points[a * 2 + 1] - points[b * 2 + 1]);
+
+  const cross = (o: number, a: number, b: number) =>
+    (points[a * 2] - points[o * 2]) * (points[b * 2 + 1] - points[o * 2 + 1]) -
+    (points[a * 2 + 1] - points[o * 2 + 1]) * (points[b * 2] - points[o * 2]);
+
+  const lower: number[] = [];
+  for (const i of order) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], i) <= 0) lower.pop();
+    lower.push(i);
+  }
+  const upper: number[] = [];
+  for (let k = order.length - 1; k >= 0; k--) {
+    const i = order[k];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], i) <= 0) upper.pop();
+    upper.push(i);
+  }
+  lower.pop();
+  upper.pop();
+
+  const hull: number[] = [];
+  for (const i of lower.concat(upper)) hull.push(points[i * 2], points[i * 2 + 1]);
+  return hull;
+}
+
+// Welzl's algorithm (iterative form) over a fixed shuffle, so results are reproducible
+export function minimumEnclosingCircle(points: ArrayLike<number>): { x: number; y: number; r: number } {
+  const n = points.length / 2;
+  if (n === 0) return { x: 0, y: 0, r: 0 };
+
+  const order = Array.from({ length: n }, (_, i) => i);
+  const random = createRng(n);
+  for (let i = n - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  const px = (i: number) => points[order[i] * 2];
+  const py = (i: number) => points[order[i] * 2 + 1];
+
+  const EPS = 1e-9;
+  const contains = (c: { x: number; y: number; r: number }, i: number) =>
+    Math.hypot(px(i) - c.x, py(i) - c.y) <= c.r + EPS;
+
+  const fromTwo = (a: number, b: number) => {
+    const x = (px(a) + px(b)) / 2;
+    const y = (py(a) + py(b)) / 2;
+    return { x, y, r: Math.hypot(px(a) - x, py(a) - y) };
+  };
+
+  const fromThree = (a: number, b: number, c: number) => {
+    const ax = px(a), ay = py(a);
+    const bx = px(b) - ax, by = py(b) - ay;
+    const cx = px(c) - ax, cy = py(c) - ay;
+    const d = 2 * (bx * cy - by * cx);
+    if (Math.abs(d) < EPS) {
+      // Collinear: the widest pair spans the circle
+      const candidates = [fromTwo(a, b), fromTwo(a, c), fromTwo(b, c)];
+      return candidates.reduce((best, circle) => (circle.r > best.r ? circle : best));
+    }
+    const ux = (cy * (bx * bx + by * by) - by * (cx * cx + cy * cy)) / d;
+    const uy = (bx * (cx * cx + cy * cy) - cx * (bx * bx + by * by)) / d;
+    return { x: ax + ux, y: ay + uy, r: Math.hypot(ux, uy) };
+  };
+
+  let circle = { x: px(0), y: py(0), r: 0 };
+  for (let i = 1; i < n; i++) {
+    if (contains(circle, i)) continue;
+    circle = { x: px(i), y: py(i), r: 0 };
+    for (let j = 0; j < i; j++) {
+      if (contains(circle, j)) continue;
+      circle = fromTwo(i, j);
+      for (let k = 0; k < j; k++) {
+        if (!contains(circle, k)) circle = fromThree(i, j, k);
+      }
+    }
+  }
+  return circle;
+}
+
+// Even-odd ray casting
+export function pointInRing(x: number, y: number, ring: ArrayLike<number>): boolean {
+  let inside = false;
+  const n = ring.length / 2;
+  for (let i = 0, j = n - 1; i < n; j = i++) {
+    const xi = ring[i * 2], yi = ring[i * 2 + 1];
+    const xj = ring[j * 2], yj = ring[j * 2 + 1];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+// Area-weighted centroid, falling back to the vertex mean for degenerate rings
+export function ringCentroid(coords: ArrayLike<number>): { x: number; y: number } {
+  const n = coords.length / 2;
+  let a = 0, cx = 0, cy = 0, mx = 0, my = 0;
+  for (let i = 0; i < n; i++) {
+    const j = (i + 1) % n;
+    const cross = coords[i * 2] * coords[j * 2 + 1] - coords[j * 2] * coords[i * 2 + 1];
+    a += cross;
+    cx += (coords[i * 2] + coords[j * 2]) * cross;
+    cy += (coords[i * 2 + 1] + coords[j * 2 + 1]) * cross;
+    mx += coords[i * 2];
+    my += coords[i * 2 + 1];
+  }
+  if (Math.abs(a) < 1e-12) return { x: n > 0 ? mx / n : 0, y: n > 0 ? my / n : 0 };
+  return { x: cx / (3 * a), y: cy / (3 * a) };
+}
+
+// Multi-part polygons: every ring's vertices in one flat array. `rings` holds each ring's start offset into
+// `coords`; `parts` holds the ring index where each polygon starts (its outer ring, followed by its holes).
+export interface PolygonRings {
+  coords: ArrayLike<number>;
+  rings: ArrayLike<number>;
+  parts: ArrayLike<number>;
+}
+
+export const SINGLE_RING = new Uint32Array([0]); // rings/parts of a plain one-ring polygon
+
+export function flattenPolygons(polygons: number[][][][]): { coords: Float32Array; rings: Uint32Array; parts: Uint32Array } {
+  const coords: number[] = [];
+  const rings: number[] = [];
+  const parts: number[] = [];
+  polygons.forEach(polygon => {
+    if (polygon.length === 0) return;
+    parts.push(rings.length);
+    polygon.forEach(ring => {
+      rings.push(coords.length);
+      ring.forEach(([x, y]) => coords.push(x, y));
+    });
+  });
+  return { coords: new Float32Array(coords), rings: new Uint32Array(rings), parts: new Uint32Array(parts) };
+}
+
+export function ringAt(shape: PolygonRings, index: number): ArrayLike<number> {
+  const start = shape.rings[index];
+  const end = index + 1 < shape.rings.length ? shape.rings[index + 1] : shape.coords.length;
+  const { coords } = shape;
+  return coords instanceof Float32Array ? coords.subarray(start, end) : Array.prototype.slice.call(coords, start, end);
+}
+
+// Outer rings minus holes
+export function polygonArea(shape: PolygonRings): number {
+  let area = 0;
+  for (let p = 0; p < shape.parts.length; p++) {
+    const end = p + 1 < shape.parts.length ? shape.parts[p + 1] : shape.rings.length;
+    for (let r = shape.parts[p]; r < end; r++) {
+      area += (r === shape.parts[p] ? 1 : -1) * ringArea(ringAt(shape, r));
+    }
+  }
+  return area;
+}
+
+// Boundary length, holes included
+export function polygonPerimeter(shape: PolygonRings): number {
+  let perimeter = 0;
+  for (let r = 0; r < shape.rings.length; r++) perimeter += ringPerimeter(ringAt(shape, r));
+  return perimeter;
+}
+
+// Area-weighted over parts with holes subtracted; falls back to the vertex mean for degenerate shapes
+export function polygonCentroid(shape: PolygonRings): { x: number; y: number } {
+  let area = 0, cx = 0, cy = 0;
+  for (let p = 0; p < shape.parts.length; p++) {
+    const end = p + 1 < shape.parts.length ? shape.parts[p + 1] : shape.rings.length;
+    for (let r = shape.parts[p]; r < end; r++) {
+      const ring = ringAt(shape, r);
+      const a = (r === shape.parts[p] ? 1 : -1) * ringArea(ring);
+      const c = ringCentroid(ring);
+      area += a;
+      cx += c.x * a;
+      cy += c.y * a;
+    }
+  }
+  if (Math.abs(area) < 1e-12) return ringCentroid(shape.coords);
+  return { x: cx / area, y: cy / area };
+}
+
+// Even-odd over every ring, so holes and separate parts both work
+export function pointInPolygon(x: number, y: number, shape: PolygonRings): boolean {
+  let inside = false;
+  for (let r = 0; r < shape.rings.length; r++) {
+    if (pointInRing(x, y, ringAt(shape, r))) inside = !inside;
+  }
+  return inside;
+}
+
+// GeoJSON MultiPolygon coordinates with closed rings; rings under 3 vertices are dropped
+export function toPolygonCoordinates(shape: PolygonRings): number[][][][] {
+  const polygons: number[][][][] = [];
+  for (let p = 0; p < shape.parts.length; p++) {
+    const end = p + 1 < shape.parts.length ? shape.parts[p + 1] : shape.rings.length;
+    const polygon: number[][][] = [];
+    for (let r = shape.parts[p]; r < end; r++) {
+      const flat = ringAt(shape, r);
+      const ring: number[][] = [];
+      for (let i = 0; i + 1 < flat.length; i += 2) ring.push([flat[i], flat[i + 1]]);
+      if (ring.length > 0 && (ring[0][0] !== ring[ring.length - 1][0] || ring[0][1] !== ring[ring.length - 1][1])) {
+        ring.push(ring[0]);
+      }
+      if (ring.length >= 4) polygon.push(ring);
+      else if (r === shape.parts[p]) break; // Degenerate outer ring: skip the whole part
+    }
+    if (polygon.length > 0) polygons.push(polygon);
+  }
+  return polygons;
+}
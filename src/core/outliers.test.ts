@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { boxStats, outlierReport, percentileRank, planMetrics, type PlanMetrics } from './outliers';
+
+describe('percentileRank', () => {
+  it('counts ties as half below', () => {
+    expect(percentileRank([1, 2, 3, 4], 3)).toBe(62.5);
+    expect(percentileRank([1, 2, 3, 4], 0)).toBe(0);
+    expect(percentileRank([1, 2, 3, 4], 5)).toBe(100);
+  });
+
+  it('is NaN for an empty ensemble', () => {
+    expect(percentileRank([], 1)).toBeNaN();
+  });
+});
+
+describe('boxStats', () => {
+  it('interpolates quartiles between ranks', () => {
+    expect(boxStats([5, 1, 4, 2, 3])).toEqual({ min: 1, q1: 2, median: 3, q3: 4, max: 5 });
+    expect(boxStats([1, 2, 3, 4]).median).toBe(2.5);
+  });
+
+  it('is all zeros when empty', () => {
+    expect(boxStats([])).toEqual({ min: 0, q1: 0, median: 0, q3: 0, max: 0 });
+  });
+});
+
+describe('planMetrics', () => {
+  it('merges districts and removes shared borders from the perimeter', () => {
+    // Two unit squares side by side in one district
+    const precincts = [
+      { id: 1, stats: [100, 60, 40], area: 1, perimeter: 4 },
+      { id: 2, stats: [100, 30, 70], area: 1, perimeter: 4 }
+    ];
+    const neighbors = (id: number) => [{ id: id === 1 ? 2 : 1, sharedLength: 1 }];
+    const metrics = planMetrics(precincts, new Map([[1, 1], [2, 1]]), neighbors);
+    expect(metrics.demSeats).toBe(0);
+    expect(metrics.sortedDemShares).toEqual([0.45]);
+    expect(metrics.meanPolsbyPopper).toBeCloseTo((4 * Math.PI * 2) / 36);
+  });
+});
+
+describe('outlierReport', () => {
+  const metrics = (efficiencyGap: number, sortedDemShares: number[]): PlanMetrics => ({
+    efficiencyGap,
+    demSeats: sortedDemShares.filter(s => s > 0.5).length,
+    meanPolsbyPopper: 0.3,
+    sortedDemShares
+  });
+
+  it('places each metric and district rank within the ensemble', () => {
+    const ensemble = [metrics(-0.02, [0.4, 0.6]), metrics(0, [0.45, 0.55]), metrics(0.02, [0.48, 0.52])];
+    const report = outlierReport(6, metrics(0.1, [0.3, 0.7]), ensemble);
+
+    expect(report.ensembleSize).toBe(3);
+    expect(report.efficiencyGap.percentile).toBe(100);
+    expect(report.meanPolsbyPopper.percentile).toBe(50);
+    expect(report.marginals.map(m => m.percentile)).toEqual([0, 100]);
+    expect(report.marginals[0].box.median).toBe(0.45);
+  });
+
+  it('leaves percentiles undefined for an empty ensemble', () => {
+    const report = outlierReport(6, metrics(0.1, [0.3, 0.7]), []);
+    expect(report.ensembleSize).toBe(0);
+    expect(report.demSeats.percentile).toBeNaN();
+  });
+});
@@ -0,0 +1,123 @@
+import type { Neighbor } from './adjacency';
+import { districtDemShares, statewideEfficiencyGap } from './analysis';
+
+// Outlier analysis: where does a plan sit within an ensemble of alternative plans?
+
+export interface PlanMetrics {
+  efficiencyGap: number;
+  demSeats: number;
+  meanPolsbyPopper: number;
+  sortedDemShares: number[]; // District Dem shares, ascending (the "marginal" view)
+}
+
+export interface BoxStats {
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+}
+
+export interface MetricPlacement {
+  value: number; // The plan under test
+  percentile: number; // Share of ensemble plans below it (ties count half), 0..100
+  box: BoxStats; // Ensemble distribution
+}
+
+export interface OutlierReport {
+  stateId: number;
+  ensembleSize: number;
+  efficiencyGap: MetricPlacement;
+  demSeats: MetricPlacement;
+  meanPolsbyPopper: MetricPlacement;
+  marginals: MetricPlacement[]; // One per district rank, least to most Democratic
+}
+
+export function planMetrics(
+  precincts: { id: number; stats?: number[]; area?: number; perimeter?: number }[],
+  assignment: Map<number, number>,
+  neighbors: (id: number) => Neighbor[]
+): PlanMetrics {
+  const districts = new Map<number, { demVotes: number; repVotes: number; area: number; perimeter: number }>();
+
+  precincts.forEach(p => {
+    const dId = assignment.get(p.id);
+    if (dId === undefined) return;
+    if (!districts.has(dId)) districts.set(dId, { demVotes: 0, repVotes: 0, area: 0, perimeter: 0 });
+
+    const d = districts.get(dId)!;
+    d.demVotes += p.stats?.[1] || 0;
+    d.repVotes += p.stats?.[2] || 0;
+    d.area += p.area || 0;
+    d.perimeter += p.perimeter || 0;
+    neighbors(p.id).forEach(n => {
+      if (assignment.get(n.id) === dId) d.perimeter -= n.sharedLength;
+    });
+  });
+
+  const list = Array.from(districts.values());
+  const shares = districtDemShares(list).sort((a, b) => a - b);
+
+  let sumPolsbyPopper = 0;
+  list.forEach(d => {
+    if (d.perimeter > 0) sumPolsbyPopper += (4 * Math.PI * d.area) / (d.perimeter * d.perimeter);
+  });
+
+  return {
+    efficiencyGap: statewideEfficiencyGap(list),
+    demSeats: list.filter(d => d.demVotes > d.repVotes).length,
+    meanPolsbyPopper: sumPolsbyPopper / Math.max(1, list.length),
+    sortedDemShares: shares
+  };
+}
+
+// Linear interpolation between closest ranks
+const quantile = (sorted: number[], q: number): number => {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+export function boxStats(values: number[]): BoxStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    min: sorted[0] ?? 0,
+    q1: quantile(sorted, 0.25),
+    median: quantile(sorted, 0.5),
+    q3: quantile(sorted, 0.75),
+    max: sorted[sorted.length - 1] ?? 0
+  };
+}
+
+// NaN for an empty ensemble: there is nothing to rank against
+export function percentileRank(values: number[], value: number): number {
+  if (values.length === 0) return NaN;
+  let below = 0;
+  let equal = 0;
+  values.forEach(v => {
+    if (v < value) below++;
+    else if (v === value) equal++;
+  });
+  return ((below + equal / 2) / values.length) * 100;
+}
+
+const place = (values: number[], value: number): MetricPlacement => ({
+  value,
+  percentile: percentileRank(values, value),
+  box: boxStats(values)
+});
+
+export function outlierReport(stateId: number, plan: PlanMetrics, ensemble: PlanMetrics[]): OutlierReport {
+  return {
+    stateId,
+    ensembleSize: ensemble.length,
+    efficiencyGap: place(ensemble.map(m => m.efficiencyGap), plan.efficiencyGap),
+    demSeats: place(ensemble.map(m => m.demSeats), plan.demSeats),
+    meanPolsbyPopper: place(ensemble.map(m => m.meanPolsbyPopper), plan.meanPolsbyPopper),
+    marginals: plan.sortedDemShares.map((share, rank) =>
+      place(ensemble.filter(m => m.sortedDemShares.length > rank).map(m => m.sortedDemShares[rank]), share)
+    )
+  };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { addToFront, dominates, type ParetoObjective, type ParetoPlan } from './pareto';
+
+const objectives: ParetoObjective[] = ['populationDeviation', 'efficiencyGap'];
+const plan = (populationDeviation: number, efficiencyGap: number): ParetoPlan => ({
+  scores: { populationDeviation, efficiencyGap, compactness: 0, constraints: 0 },
+  assignment: []
+});
+
+describe('dominates', () => {
+  it('needs no worse on every objective and better on one', () => {
+    expect(dominates(plan(1, 1), plan(2, 1), objectives)).toBe(true);
+    expect(dominates(plan(1, 1), plan(1, 1), objectives)).toBe(false);
+    expect(dominates(plan(1, 3), plan(2, 1), objectives)).toBe(false);
+  });
+
+  it('only compares the chosen objectives', () => {
+    const a = { ...plan(1, 5), scores: { ...plan(1, 5).scores, compactness: 9 } };
+    expect(dominates(a, plan(2, 1), ['populationDeviation', 'compactness'])).toBe(false);
+    expect(dominates(a, plan(2, 1), ['populationDeviation'])).toBe(true);
+  });
+});
+
+describe('addToFront', () => {
+  it('keeps only non-dominated plans', () => {
+    const front: ParetoPlan[] = [];
+    expect(addToFront(front, plan(3, 3), objectives)).toBe(true);
+    expect(addToFront(front, plan(1, 4), objectives)).toBe(true);
+    expect(addToFront(front, plan(4, 4), objectives)).toBe(false);
+    // Dominates (3, 3), which is dropped
+    expect(addToFront(front, plan(2, 2), objectives)).toBe(true);
+    expect(front.map(p => [p.scores.populationDeviation, p.scores.efficiencyGap])).toEqual([[1, 4], [2, 2]]);
+  });
+
+  it('keeps the first of two plans with identical scores', () => {
+    const first = plan(1, 1);
+    const front = [first];
+    expect(addToFront(front, plan(1, 1), objectives)).toBe(false);
+    expect(front).toEqual([first]);
+    expect(front[0]).toBe(first);
+  });
+});
@@ -0,0 +1,70 @@
+import type { Neighbor } from './adjacency';
+import { planMetrics } from './outliers';
+import type { RedistrictOptions } from './types';
+
+// Every objective is minimised
+export type ParetoObjective = 'populationDeviation' | 'efficiencyGap' | 'compactness' | 'constraints';
+
+export const PARETO_OBJECTIVES: { id: ParetoObjective; label: string }[] = [
+  { id: 'populationDeviation', label: 'Population Deviation' },
+  { id: 'efficiencyGap', label: '|Efficiency Gap|' },
+  { id: 'compactness', label: '1 - Mean Polsby-Popper' },
+  { id: 'constraints', label: 'Constraint Shortfall' }
+];
+
+export interface ParetoOptions extends RedistrictOptions {
+  objectives?: ParetoObjective[];
+  stateIds?: number[]; // Limit the search to these states (defaults to all)
+}
+
+export interface ParetoPlan {
+  scores: Record<ParetoObjective, number>;
+  assignment: number[]; // Local district per precinct, aligned with the front's precinctIds
+}
+
+export interface ParetoFront {
+  stateId: number;
+  precinctIds: number[];
+  plans: ParetoPlan[];
+}
+
+// a dominates b: no worse on every objective and strictly better on at least one
+export function dominates(a: ParetoPlan, b: ParetoPlan, objectives: ParetoObjective[]): boolean {
+  let strictlyBetter = false;
+  for (const o of objectives) {
+    if (a.scores[o] > b.scores[o]) return false;
+    if (a.scores[o] < b.scores[o]) strictlyBetter = true;
+  }
+  return strictlyBetter;
+}
+
+// Insert a candidate into a non-dominated set in place. Returns false if it was dominated.
+export function addToFront(front: ParetoPlan[], candidate: ParetoPlan, objectives: ParetoObjective[]): boolean {
+  for (const plan of front) {
+    if (dominates(plan, candidate, objectives)) return false;
+    // Identical scores: keep the first plan found
+    if (objectives.every(o => plan.scores[o] === candidate.scores[o])) return false;
+  }
+
+  for (let i = front.length - 1; i >= 0; i--) {
+    if (dominates(candidate, front[i], objectives)) front.splice(i, 1);
+  }
+  front.push(candidate);
+  return true;
+}
+
+// Objective scores for one state's plan
+export function scorePlan(
+  precincts: { id: number; stats?: number[]; area?: number; perimeter?: number }[],
+  assignment: Map<number, number>,
+  neighbors: (id: number) => Neighbor[],
+  cost: { population: number; constraints: number }
+): Record<ParetoObjective, number> {
+  const metrics = planMetrics(precincts, assignment, neighbors);
+  return {
+    populationDeviation: cost.population,
+    efficiencyGap: Math.abs(metrics.efficiencyGap),
+    compactness: 1 - metrics.meanPolsbyPopper,
+    constraints: cost.constraints
+  };
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { diffPlans } from './planDiff';
+
+const stats = new Map<number, number[]>([
+  [1, [100, 60, 40, 50, 30, 20]],
+  [2, [200, 80, 120, 150, 20, 30]],
+  [3, [300, 100, 200, 200, 50, 50]],
+  [4, [50, 25, 25, 40, 5, 5]]
+]);
+
+describe('diffPlans', () => {
+  it('lists changed precincts and groups transfers by district pair', () => {
+    const base = new Map([[1, 1], [2, 1], [3, 2], [4, 2]]);
+    const proposed = new Map([[1, 2], [2, 2], [3, 1], [4, 2]]);
+    const diff = diffPlans(base, proposed, id => stats.get(id));
+
+    expect(diff.changed).toEqual([{ id: 1, from: 1, to: 2 }, { id: 2, from: 1, to: 2 }, { id: 3, from: 2, to: 1 }]);
+    expect(diff.transfers).toEqual([
+      { from: 1, to: 2, precincts: 2, population: 300 },
+      { from: 2, to: 1, precincts: 1, population: 300 }
+    ]);
+  });
+
+  it('nets stat deltas per district', () => {
+    const diff = diffPlans(new Map([[1, 1], [2, 2]]), new Map([[1, 2], [2, 2]]), id => stats.get(id));
+    expect(diff.districtDeltas).toEqual([
+      { districtId: 1, population: -100, demVotes: -60, repVotes: -40, white: -50, black: -30, hispanic: -20 },
+      { districtId: 2, population: 100, demVotes: 60, repVotes: 40, white: 50, black: 30, hispanic: 20 }
+    ]);
+  });
+
+  it('ignores precincts missing from either plan and tolerates missing stats', () => {
+    const diff = diffPlans(new Map([[1, 1], [5, 1]]), new Map([[1, 1], [6, 2], [5, 3]]), id => stats.get(id));
+    expect(diff.changed).toEqual([{ id: 5, from: 1, to: 3 }]);
+    expect(diff.transfers).toEqual([{ from: 1, to: 3, precincts: 1, population: 0 }]);
+    expect(diff.districtDeltas).toEqual([]);
+  });
+});
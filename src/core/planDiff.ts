@@ -0,0 +1,79 @@
+// Comparison of two precinct -> district assignments (e.g. enacted vs proposed)
+
+export interface PrecinctChange {
+  id: number;
+  from: number;
+  to: number;
+}
+
+export interface DistrictTransfer {
+  from: number;
+  to: number;
+  precincts: number;
+  population: number;
+}
+
+export interface DistrictDelta {
+  districtId: number;
+  population: number;
+  demVotes: number;
+  repVotes: number;
+  white: number;
+  black: number;
+  hispanic: number;
+}
+
+export interface PlanDiff {
+  changed: PrecinctChange[];
+  transfers: DistrictTransfer[]; // Largest first
+  districtDeltas: DistrictDelta[]; // proposed - base, only districts that gained or lost precincts
+}
+
+// `statsOf` returns [pop, dem, rep, white, black, hispanic, ...] for a precinct.
+// Precincts missing from either plan are ignored.
+export function diffPlans(
+  base: Map<number, number>,
+  proposed: Map<number, number>,
+  statsOf: (id: number) => ArrayLike<number> | undefined
+): PlanDiff {
+  const changed: PrecinctChange[] = [];
+  const transfers = new Map<string, DistrictTransfer>();
+  const deltas = new Map<number, DistrictDelta>();
+
+  const delta = (districtId: number) => {
+    if (!deltas.has(districtId)) {
+      deltas.set(districtId, { districtId, population: 0, demVotes: 0, repVotes: 0, white: 0, black: 0, hispanic: 0 });
+    }
+    return deltas.get(districtId)!;
+  };
+
+  base.forEach((from, id) => {
+    const to = proposed.get(id);
+    if (to === undefined || to === from) return;
+    changed.push({ id, from, to });
+
+    const stats = statsOf(id);
+    const pop = stats?.[0] ?? 0;
+
+    const key = `${from}:${to}`;
+    if (!transfers.has(key)) transfers.set(key, { from, to, precincts: 0, population: 0 });
+    const transfer = transfers.get(key)!;
+    transfer.precincts++;
+    transfer.population += pop;
+
+    if (!stats) return;
+    const fields = ['population', 'demVotes', 'repVotes', 'white', 'black', 'hispanic'] as const;
+    const loser = delta(from);
+    const gainer = delta(to);
+    fields.forEach((field, i) => {
+      loser[field] -= stats[i];
+      gainer[field] += stats[i];
+    });
+  });
+
+  return {
+    changed,
+    transfers: Array.from(transfers.values()).sort((a, b) => b.population - a.population),
+    districtDeltas: Array.from(deltas.values()).sort((a, b) => a.districtId - b.districtId)
+  };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { createPlanDocument, datasetFingerprint, migratePlanDocument, PLAN_FORMAT, PLAN_SCHEMA_VERSION } from './planDocument';
+
+describe('datasetFingerprint', () => {
+  it('ignores precinct order but not populations', () => {
+    const a = datasetFingerprint([{ id: 1, population: 100 }, { id: 2, population: 200 }]);
+    expect(a).toMatch(/^[0-9a-f]{8}$/);
+    expect(datasetFingerprint([{ id: 2, population: 200 }, { id: 1, population: 100 }])).toBe(a);
+    expect(datasetFingerprint([{ id: 1, population: 100 }, { id: 2, population: 201 }])).not.toBe(a);
+  });
+});
+
+describe('migratePlanDocument', () => {
+  it.each([
+    ['pair list', [[1, 601], [2, 602]]],
+    ['object list', [{ id: 1, districtId: 601 }, { id: 2, districtId: 602 }]],
+    ['id map', { 1: 601, 2: 602 }],
+    ['wrapped assignment', { assignment: [[1, 601], [2, 602]] }]
+  ])('upgrades a bare %s', (_, input) => {
+    const plan = migratePlanDocument(input);
+    expect(plan.format).toBe(PLAN_FORMAT);
+    expect(plan.version).toBe(PLAN_SCHEMA_VERSION);
+    expect(plan.assignment).toEqual([[1, 601], [2, 602]]);
+    expect(plan.baseline).toBeNull();
+  });
+
+  it('passes a current document through', () => {
+    const doc = createPlanDocument({
+      name: 'Draft', dataSource: null, assignment: [[1, 601]], baseline: [[1, 602]], constraints: [], settings: { runs: 3, isAuto: true }, analysis: null
+    });
+    expect(migratePlanDocument(JSON.parse(JSON.stringify(doc)))).toEqual(doc);
+  });
+
+  it('fills fields missing from a hand-edited document', () => {
+    const plan = migratePlanDocument({ format: PLAN_FORMAT, version: 1, assignment: [[1, 601], ['x', 2]] });
+    expect(plan).toMatchObject({ name: 'Untitled plan', assignment: [[1, 601]], constraints: [], settings: { runs: 1, isAuto: false }, dataSource: null });
+  });
+
+  it('rejects newer versions and non-documents', () => {
+    expect(() => migratePlanDocument({ format: PLAN_FORMAT, version: PLAN_SCHEMA_VERSION + 1 })).toThrow(/newer/);
+    expect(() => migratePlanDocument('plan')).toThrow('Not a plan document');
+  });
+});
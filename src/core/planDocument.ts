@@ -0,0 +1,121 @@
+import type { Constraint, RedistrictOptions } from './types';
+import type { DistrictStats, StateAnalysis } from './analysis';
+
+// Saved plans: a versioned JSON document with everything needed to pick work back up after a reload
+
+export const PLAN_FORMAT = 'clearline-plan';
+export const PLAN_SCHEMA_VERSION = 1;
+
+// Which precinct data the assignment refers to; the fingerprint catches a different load with the same ids
+export interface DataSourceIdentity {
+  kind: 'generated' | 'file';
+  seed?: number; // Generated data
+  name?: string; // Precinct file name
+  precinctCount: number;
+  fingerprint: string;
+}
+
+export interface PlanDocument {
+  format: typeof PLAN_FORMAT;
+  version: typeof PLAN_SCHEMA_VERSION;
+  name: string;
+  savedAt: string; // ISO timestamp
+  dataSource: DataSourceIdentity | null;
+  assignment: [number, number][]; // [precinct id, global district id]
+  baseline: [number, number][] | null; // Core retention reference plan
+  constraints: Constraint[];
+  settings: RedistrictOptions; // Annealer settings, including goals, projection and communities
+  analysis: { districts: DistrictStats[], states: StateAnalysis[] } | null; // Snapshot at save time, for reference only
+}
+
+// FNV-1a over precinct ids and populations, in id order
+export function datasetFingerprint(precincts: Iterable<{ id: number; population: number }>): string {
+  const sorted = Array.from(precincts).sort((a, b) => a.id - b.id);
+  let hash = 0x811c9dc5;
+  const mix = (value: number) => {
+    for (let shift = 0; shift < 32; shift += 8) {
+      hash ^= (value >>> shift) & 0xff;
+      hash = Math.imul(hash, 0x01000193);
+    }
+  };
+  sorted.forEach(p => {
+    mix(p.id);
+    mix(p.population);
+  });
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export function createPlanDocument(parts: Omit<PlanDocument, 'format' | 'version' | 'savedAt'>): PlanDocument {
+  return { format: PLAN_FORMAT, version: PLAN_SCHEMA_VERSION, savedAt: new Date().toISOString(), ...parts };
+}
+
+type RawDocument = Record<string, unknown>;
+
+// Each step upgrades a document from `version` to `version + 1`
+const MIGRATIONS: Record<number, (doc: RawDocument) => RawDocument> = {
+  // Version 0: a bare assignment, either [[id, district], ...], [{ id, districtId }, ...] or { "id": district }
+  0: doc => ({
+    format: PLAN_FORMAT,
+    version: 1,
+    name: 'Imported plan',
+    savedAt: new Date(0).toISOString(),
+    dataSource: null,
+    assignment: normalizeAssignment(doc.assignment),
+    baseline: null,
+    constraints: [],
+    settings: { runs: 1, isAuto: false },
+    analysis: null
+  })
+};
+
+function normalizeAssignment(value: unknown): [number, number][] {
+  const entries: unknown[] = Array.isArray(value)
+    ? value
+    : value && typeof value === 'object' ? Object.entries(value) : [];
+  const pairs: [number, number][] = [];
+  entries.forEach(entry => {
+    const [id, districtId] = Array.isArray(entry)
+      ? entry
+      : entry && typeof entry === 'object' ? [(entry as RawDocument).id, (entry as RawDocument).districtId] : [];
+    const pair: [number, number] = [Number(id), Number(districtId)];
+    if (Number.isInteger(pair[0]) && Number.isInteger(pair[1])) pairs.push(pair);
+  });
+  return pairs;
+}
+
+// Accepts parsed JSON of any supported version and returns a current document; throws on anything else
+export function migratePlanDocument(input: unknown): PlanDocument {
+  let doc: RawDocument;
+  if (Array.isArray(input)) {
+    doc = { version: 0, assignment: input };
+  } else if (input && typeof input === 'object') {
+    const raw = input as RawDocument;
+    doc = raw.format === PLAN_FORMAT ? raw : { version: 0, assignment: raw.assignment ?? raw };
+  } else {
+    throw new Error('Not a plan document');
+  }
+
+  let version = typeof doc.version === 'number' ? doc.version : 0;
+  if (version > PLAN_SCHEMA_VERSION) {
+    throw new Error(`Plan version ${version} is newer than this build supports (${PLAN_SCHEMA_VERSION})`);
+  }
+  while (version < PLAN_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from plan version ${version}`);
+    doc = migrate(doc);
+    version++;
+  }
+
+  // Fill fields that may be missing from hand-edited files
+  const plan = doc as unknown as PlanDocument;
+  return {
+    ...plan,
+    name: typeof plan.name === 'string' ? plan.name : 'Untitled plan',
+    assignment: normalizeAssignment(plan.assignment),
+    baseline: plan.baseline ? normalizeAssignment(plan.baseline) : null,
+    constraints: Array.isArray(plan.constraints) ? plan.constraints : [],
+    settings: plan.settings ?? { runs: 1, isAuto: false },
+    dataSource: plan.dataSource ?? null,
+    analysis: plan.analysis ?? null
+  };
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { FeatureCollection } from 'geojson';
+import { detectRateScale, mapPrecinctProperties, normalizeGeoid, propertyNames, toFeatureCollection, DEFAULT_PRECINCT_MAPPING } from './precinctImport';
+
+const collection = (...properties: Record<string, unknown>[]): FeatureCollection => ({
+  type: 'FeatureCollection',
+  features: properties.map(p => ({ type: 'Feature', geometry: { type: 'Point', coordinates: [0, 0] }, properties: p }))
+});
+
+describe('normalizeGeoid', () => {
+  it('restores leading zeros lost to numeric GEOIDs', () => {
+    expect(normalizeGeoid(6)).toBe('06');
+    expect(normalizeGeoid(6037)).toBe('06037');
+    expect(normalizeGeoid(6037000100)).toBe('06037000100');
+  });
+
+  it('leaves string ids as written', () => {
+    expect(normalizeGeoid(' 6037 ')).toBe('6037');
+    expect(normalizeGeoid('CA-12')).toBe('CA-12');
+    expect(normalizeGeoid(undefined)).toBeUndefined();
+  });
+});
+
+describe('detectRateScale', () => {
+  it('scales fraction-valued rates to percentages', () => {
+    expect(detectRateScale(collection({ ed: 0.25 }, { ed: '0.5' }, { ed: 1 }), 'ed')).toBe(100);
+    expect(detectRateScale(collection({ ed: 25 }, { ed: 0.5 }), 'ed')).toBe(1);
+    // All zeros and ones could be either
+    expect(detectRateScale(collection({ ed: 0 }, { ed: 1 }), 'ed')).toBe(1);
+  });
+});
+
+describe('mapPrecinctProperties', () => {
+  it('maps MGGG columns, deriving the state from the GEOID', () => {
+    const mapped = mapPrecinctProperties(
+      { GEOID20: 6037000100, COUNTYFP20: '037', TOTPOP: 1234.6, PRES20D: '500', PRES20R: 400, NH_WHITE: 600, NH_BLACK: 100, HISP: 300 },
+      DEFAULT_PRECINCT_MAPPING
+    );
+    expect(mapped).toEqual({ geoid: '06037000100', stateId: 6, countyId: 6037, stats: [1235, 500, 400, 600, 100, 300, 0, 0] });
+  });
+
+  it('scales and clamps rates but keeps amounts fractional', () => {
+    const mapped = mapPrecinctProperties({ STATE: 6, ED: 0.425, INC: 51234.5 }, { stateId: 'STATE', education: 'ED', income: 'INC', scale: { education: 100 } });
+    expect(mapped?.stats[6]).toBeCloseTo(42.5);
+    expect(mapped?.stats[7]).toBe(51234.5);
+    expect(mapPrecinctProperties({ STATE: 6, ED: 140 }, { stateId: 'STATE', education: 'ED' })?.stats[6]).toBe(100);
+  });
+
+  it('skips precincts outside an apportioned state', () => {
+    expect(mapPrecinctProperties({ STATE: 72 }, { stateId: 'STATE' })).toBeNull();
+  });
+});
+
+describe('toFeatureCollection', () => {
+  it('passes GeoJSON through and flattens TopoJSON objects', () => {
+    const geojson = collection({ a: 1 });
+    expect(toFeatureCollection(geojson)).toBe(geojson);
+
+    const topology = {
+      type: 'Topology',
+      arcs: [],
+      objects: {
+        north: { type: 'GeometryCollection', geometries: [{ type: 'Point', coordinates: [0, 0], properties: { a: 1 } }] },
+        south: { type: 'Point', coordinates: [1, 1], properties: { b: 2 } }
+      }
+    };
+    const converted = toFeatureCollection(topology);
+    expect(converted.features).toHaveLength(2);
+    expect(propertyNames(converted)).toEqual(['a', 'b']);
+  });
+
+  it('rejects anything else', () => {
+    expect(() => toFeatureCollection({ type: 'Feature' })).toThrow(/FeatureCollection/);
+  });
+});
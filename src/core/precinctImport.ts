@@ -0,0 +1,126 @@
+import * as topojson from 'topojson-client';
+import type { Feature, FeatureCollection, GeoJsonProperties, Geometry } from 'geojson';
+import { STATE_APPORTIONMENT } from './Apportionment';
+
+// Real precinct files: GeoJSON or TopoJSON whose properties are mapped onto the eight stat columns
+
+export const STAT_COLUMNS = ['population', 'demVotes', 'repVotes', 'white', 'black', 'hispanic', 'education', 'income'] as const;
+export type StatColumn = typeof STAT_COLUMNS[number];
+
+// Counts are rounded to whole people; rates are percentages (0-100) in the generated data, though
+// files often store them as 0-1 fractions; amounts (dollars) keep their precision
+export const STAT_COLUMN_KINDS: Record<StatColumn, 'count' | 'rate' | 'amount'> = {
+  population: 'count',
+  demVotes: 'count',
+  repVotes: 'count',
+  white: 'count',
+  black: 'count',
+  hispanic: 'count',
+  education: 'rate',
+  income: 'amount'
+};
+
+export const COUNT_COLUMNS: readonly StatColumn[] = STAT_COLUMNS.filter(c => STAT_COLUMN_KINDS[c] === 'count');
+export const RATE_COLUMNS: readonly StatColumn[] = STAT_COLUMNS.filter(c => STAT_COLUMN_KINDS[c] === 'rate');
+
+// Census GEOID widths: state, county, tract or VTD, block group, block
+const GEOID_WIDTHS = [2, 5, 11, 12, 15];
+
+// Numeric GEOIDs lose their leading zero (06037 -> 6037); pad back to the next Census width
+export function normalizeGeoid(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const text = String(value).trim();
+  if (typeof value !== 'number' || !/^\d+$/.test(text)) return text;
+  const width = GEOID_WIDTHS.find(w => w >= text.length);
+  return width ? text.padStart(width, '0') : text;
+}
+
+// Source property names; unmapped stats load as 0
+export interface PrecinctPropertyMapping extends Partial<Record<StatColumn, string>> {
+  id?: string; // Source identifier (e.g. GEOID), kept for block-assignment files
+  stateId?: string; // State FIPS; derived from the first two digits of `id` when unmapped
+  countyId?: string; // County FIPS, either 5-digit or 3-digit within the state
+  scale?: Partial<Record<StatColumn, number>>; // Multiplier per stat column, e.g. 100 for a fraction-valued rate
+}
+
+// Column names used by the MGGG states precinct shapefiles
+export const DEFAULT_PRECINCT_MAPPING: PrecinctPropertyMapping = {
+  id: 'GEOID20',
+  stateId: 'STATEFP20',
+  countyId: 'COUNTYFP20',
+  population: 'TOTPOP',
+  demVotes: 'PRES20D',
+  repVotes: 'PRES20R',
+  white: 'NH_WHITE',
+  black: 'NH_BLACK',
+  hispanic: 'HISP'
+};
+
+export interface MappedPrecinct {
+  geoid?: string;
+  stateId: number;
+  countyId?: number;
+  stats: number[]; // In STAT_COLUMNS order
+}
+
+// GeoJSON passes through; every object of a TopoJSON topology is converted and concatenated
+export function toFeatureCollection(data: unknown): FeatureCollection<Geometry> {
+  const input = data as { type?: string };
+  if (input?.type === 'FeatureCollection') {
+    return data as FeatureCollection<Geometry>;
+  }
+  if (input?.type === 'Topology') {
+    const topology = data as Parameters<typeof topojson.feature>[0];
+    const features = Object.values(topology.objects).flatMap(object => {
+      const converted = topojson.feature(topology, object) as FeatureCollection<Geometry> | Feature<Geometry>;
+      return converted.type === 'FeatureCollection' ? converted.features : [converted];
+    });
+    return { type: 'FeatureCollection', features };
+  }
+  throw new Error('Expected a GeoJSON FeatureCollection or a TopoJSON Topology');
+}
+
+// Property names seen on the first `sample` features, for building a mapping
+export function propertyNames(collection: FeatureCollection, sample = 100): string[] {
+  const names = new Set<string>();
+  collection.features.slice(0, sample).forEach(f => Object.keys(f.properties ?? {}).forEach(name => names.add(name)));
+  return Array.from(names).sort();
+}
+
+const numeric = (properties: GeoJsonProperties, name?: string): number => {
+  if (!name || !properties) return NaN;
+  const value = properties[name];
+  return typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+};
+
+// 100 when every sampled value of a rate column lies in 0..1, i.e. the column holds fractions rather than percentages
+export function detectRateScale(collection: FeatureCollection, name: string, sample = 100): number {
+  const values = collection.features.slice(0, sample).map(f => numeric(f.properties, name)).filter(v => !isNaN(v));
+  return values.length > 0 && values.every(v => v >= 0 && v <= 1) && values.some(v => v > 0 && v < 1) ? 100 : 1;
+}
+
+// Null when the state can't be resolved to an apportioned state
+export function mapPrecinctProperties(properties: GeoJsonProperties, mapping: PrecinctPropertyMapping): MappedPrecinct | null {
+  const geoid = normalizeGeoid(mapping.id ? properties?.[mapping.id] : undefined);
+
+  let stateId = numeric(properties, mapping.stateId);
+  if (isNaN(stateId) && geoid && /^\d{2}/.test(geoid)) {
+    stateId = Number(geoid.slice(0, 2));
+  }
+  if (!STATE_APPORTIONMENT[stateId]) return null;
+
+  let countyId: number | undefined = numeric(properties, mapping.countyId);
+  if (isNaN(countyId)) {
+    countyId = undefined;
+  } else if (countyId < 1000) {
+    countyId += stateId * 1000; // 3-digit county code
+  }
+
+  const stats = STAT_COLUMNS.map(column => {
+    const value = numeric(properties, mapping[column]) * (mapping.scale?.[column] ?? 1);
+    if (isNaN(value)) return 0;
+    if (COUNT_COLUMNS.includes(column)) return Math.max(0, Math.round(value));
+    return RATE_COLUMNS.includes(column) ? Math.max(0, Math.min(100, value)) : Math.max(0, value);
+  });
+  return { geoid, stateId, countyId, stats };
+}
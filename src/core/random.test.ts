@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { createRng, deriveSeed } from './random';
+import { simulatedAnnealing } from './algorithms';
+
+const draw = (seed: number | undefined, n = 5) => {
+  const random = createRng(seed);
+  return Array.from({ length: n }, () => random());
+};
+
+describe('createRng', () => {
+  it('repeats the same sequence for the same seed', () => {
+    expect(draw(42)).toEqual(draw(42));
+    expect(draw(42)).not.toEqual(draw(43));
+  });
+
+  it('stays within [0, 1)', () => {
+    draw(7, 1000).forEach(v => {
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    });
+  });
+
+  it('falls back to Math.random without a seed', () => {
+    expect(createRng()).toBe(Math.random);
+  });
+});
+
+describe('deriveSeed', () => {
+  it('gives independent streams per part and stays undefined without a base seed', () => {
+    expect(deriveSeed(1, 6, 0)).toBe(deriveSeed(1, 6, 0));
+    expect(deriveSeed(1, 6, 0)).not.toBe(deriveSeed(1, 6, 1));
+    expect(deriveSeed(1, 6)).not.toBe(deriveSeed(1, 7));
+    expect(deriveSeed(undefined, 6)).toBeUndefined();
+  });
+});
+
+describe('seeded algorithms', () => {
+  it('produce the same plan for the same seed', () => {
+    const precincts = Array.from({ length: 20 }, (_, i) => ({ id: i + 1, districtId: (i % 2) + 1, population: 50 + i, stats: [50 + i, i, 20 - i, 0, 0, 0, 0, 0] }));
+    const run = (seed: number) => Array.from(simulatedAnnealing(precincts, { districtCount: 2, seed }).assignment);
+    expect(run(9)).toEqual(run(9));
+  });
+});
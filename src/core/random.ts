@@ -0,0 +1,34 @@
+// Uniform [0, 1) generator, drop-in for Math.random
+export type Rng = () => number;
+
+// Seed used for data generation when none is given, so every session sees the same precincts
+export const DEFAULT_SEED = 2020;
+
+// Mulberry32: tiny, fast and good enough for sampling. Without a seed, falls back to Math.random.
+export function createRng(seed?: number): Rng {
+  if (seed === undefined) return Math.random;
+
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Combine a base seed with stream identifiers (state id, run index, ...) into an
+// independent seed, so results don't depend on the order streams are processed in.
+export function deriveSeed(seed: number | undefined, ...parts: number[]): number | undefined {
+  if (seed === undefined) return undefined;
+
+  let h = (seed ^ 0x9E3779B9) >>> 0;
+  for (const part of parts) {
+    h = Math.imul(h ^ (part >>> 0), 0x85EBCA6B) >>> 0;
+    h = (h ^ (h >>> 13)) >>> 0;
+    h = Math.imul(h, 0xC2B2AE35) >>> 0;
+    h = (h ^ (h >>> 16)) >>> 0;
+  }
+  return h;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCoreRetention } from './retention';
+
+const population = (id: number) => id * 100;
+
+describe('calculateCoreRetention', () => {
+  it('finds each district core and the population displaced from it', () => {
+    const baseline = new Map([[1, 1], [2, 1], [3, 2], [4, 2]]);
+    const current = new Map([[1, 1], [2, 2], [3, 2], [4, 2]]);
+    const summary = calculateCoreRetention(baseline, current, population);
+
+    expect(summary.districts).toEqual([
+      { districtId: 1, population: 100, coreDistrict: 1, retainedPopulation: 100, retention: 1 },
+      { districtId: 2, population: 900, coreDistrict: 2, retainedPopulation: 700, retention: 700 / 900 }
+    ]);
+    expect(summary.totalPopulation).toBe(1000);
+    expect(summary.changedPopulation).toBe(200);
+    expect(summary.displacedPopulation).toBe(200);
+    expect(summary.meanRetention).toBeCloseTo(0.8);
+  });
+
+  it('ignores relabelled districts when measuring displacement', () => {
+    const summary = calculateCoreRetention(new Map([[1, 1], [2, 2]]), new Map([[1, 2], [2, 1]]), population);
+    expect(summary.changedPopulation).toBe(300);
+    expect(summary.displacedPopulation).toBe(0);
+    expect(summary.meanRetention).toBe(1);
+  });
+
+  it('skips precincts missing from the baseline', () => {
+    const summary = calculateCoreRetention(new Map([[1, 1]]), new Map([[1, 1], [2, 1]]), population);
+    expect(summary.totalPopulation).toBe(100);
+  });
+});
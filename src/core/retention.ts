@@ -0,0 +1,65 @@
+// Core retention: how much of each current district is carried over from a baseline plan
+
+export interface DistrictRetention {
+  districtId: number;
+  population: number;
+  coreDistrict: number | null; // Baseline district contributing the most population
+  retainedPopulation: number; // Population coming from coreDistrict
+  retention: number; // retainedPopulation / population
+}
+
+export interface RetentionSummary {
+  districts: DistrictRetention[]; // By district id
+  totalPopulation: number; // Population present in both plans
+  changedPopulation: number; // People whose district id differs from the baseline
+  displacedPopulation: number; // People outside their district's core (label-independent)
+  meanRetention: number; // Population-weighted
+}
+
+// Precincts missing from the baseline are ignored, as in diffPlans
+export function calculateCoreRetention(
+  baseline: Map<number, number>,
+  current: Map<number, number>,
+  populationOf: (id: number) => number
+): RetentionSummary {
+  const overlaps = new Map<number, Map<number, number>>(); // current district -> baseline district -> population
+  let totalPopulation = 0;
+  let changedPopulation = 0;
+
+  current.forEach((districtId, id) => {
+    const baseDistrict = baseline.get(id);
+    if (baseDistrict === undefined) return;
+    const pop = populationOf(id);
+    totalPopulation += pop;
+    if (baseDistrict !== districtId) changedPopulation += pop;
+
+    if (!overlaps.has(districtId)) overlaps.set(districtId, new Map());
+    const overlap = overlaps.get(districtId)!;
+    overlap.set(baseDistrict, (overlap.get(baseDistrict) ?? 0) + pop);
+  });
+
+  const districts: DistrictRetention[] = [];
+  let retainedTotal = 0;
+  overlaps.forEach((overlap, districtId) => {
+    let population = 0;
+    let coreDistrict: number | null = null;
+    let retainedPopulation = 0;
+    overlap.forEach((pop, baseDistrict) => {
+      population += pop;
+      if (coreDistrict === null || pop > retainedPopulation) {
+        coreDistrict = baseDistrict;
+        retainedPopulation = pop;
+      }
+    });
+    retainedTotal += retainedPopulation;
+    districts.push({ districtId, population, coreDistrict, retainedPopulation, retention: population > 0 ? retainedPopulation / population : 1 });
+  });
+
+  return {
+    districts: districts.sort((a, b) => a.districtId - b.districtId),
+    totalPopulation,
+    changedPopulation,
+    displacedPopulation: totalPopulation - retainedTotal,
+    meanRetention: totalPopulation > 0 ? retainedTotal / totalPopulation : 1
+  };
+}
@@ -1,4 +1,8 @@
-export type WorkerMessageType = 'PING' | 'PONG' | 'LOAD_DATA' | 'UPDATE_DISTRICT' | 'RUN_ANALYSIS' | 'AUTO_REDISTRICT' | 'SIMULATED_ANNEALING' | 'GENERATE_BORDERS';
+import type { OpportunityGoal, VraOptions } from './vra';
+import type { ProjectionOptions } from './forecast';
+import type { Community } from './communities';
+
+export type WorkerMessageType = 'PING' | 'PONG' | 'LOAD_DATA' | 'UPDATE_DISTRICT' | 'RUN_ANALYSIS' | 'AUTO_REDISTRICT' | 'SIMULATED_ANNEALING' | 'GENERATE_BORDERS' | 'GET_NEIGHBORS' | 'RECOM_ENSEMBLE' | 'PARETO_FRONT' | 'ASSIGN_DISTRICTS' | 'SEATS_VOTES' | 'ENSEMBLE_OUTLIER' | 'SET_BASELINE' | 'RESET_DATA';
 
 export interface WorkerMessage {
   id: string;
@@ -15,14 +19,48 @@ export interface WorkerResponse {
 
 export interface Constraint {
   id: string;
-  metric: 'population' | 'demVotes' | 'repVotes' | 'white' | 'black' | 'hispanic' | 'education' | 'income';
-  metricType?: 'value' | 'growth'; // Default to 'value'
+  metric: 'population' | 'demVotes' | 'repVotes' | 'white' | 'black' | 'hispanic' | 'education' | 'income' | 'compactness' | 'countySplits' | 'margin'; // margin: |Dem - Rep| in points
+  metricType?: 'value' | 'growth' | 'projected'; // Default to 'value'; 'projected' uses RedistrictOptions.projection
   operator: '>' | '<' | '>=' | '<=' | '~=' | 'between';
   value: number;
   maxValue?: number; // For 'between' operator
   targetPercent: number; // % of districts that must meet this rule
 }
 
+export interface AnnealingSchedule {
+  type: 'geometric' | 'linear' | 'adaptive';
+  iterations: number;
+  initialTemperature: number;
+  coolingRate: number; // Per-iteration multiplier (geometric, adaptive)
+  finalTemperature?: number; // Linear: temperature reached on the last iteration
+  reheatWindow?: number; // Adaptive: iterations per acceptance-rate check
+  reheatThreshold?: number; // Adaptive: acceptance rate below which the chain is reheated
+  reheatRatio?: number; // Adaptive: the k-th reheat restores initialTemperature * ratio^k
+}
+
+export interface RedistrictOptions {
+  runs: number;
+  isAuto: boolean;
+  contiguous?: boolean; // Boundary-flip moves that keep every district connected
+  seed?: number; // Reproducible runs; random when omitted
+  schedule?: AnnealingSchedule;
+  countySplitWeight?: number; // Annealing penalty per county split
+  opportunityGoals?: OpportunityGoal[]; // Minimum VRA opportunity districts per state
+  vra?: Partial<VraOptions>;
+  projection?: ProjectionOptions; // Target year and trend model for 'projected' constraints
+  retentionWeight?: number; // Annealing penalty for population moved out of the baseline plan's district cores
+  communities?: Community[]; // Communities of interest to keep together
+  communitySplitWeight?: number; // Annealing penalty per community split
+}
+
+// RUN_ANALYSIS inputs that change what the district statistics report
+export interface AnalysisOptions {
+  vra?: Partial<VraOptions>;
+  competitiveBands?: number[]; // Margin thresholds in percentage points
+  populationTolerance?: number; // Allowed deviation from the ideal district population
+  communities?: Community[];
+}
+
 export interface PrecinctStats {
   year: number;
   population: number;
@@ -38,7 +76,7 @@ export interface PrecinctStats {
 export interface PrecinctData {
   id: number;
   coords: Float32Array;
-  stats: Uint16Array;
+  stats: Float64Array;
   districtId: number;
   countyId?: number;
   projectedDemVotes?: number;
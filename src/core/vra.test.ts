@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { classifyOpportunity, isOpportunityDistrict, opportunityShare, summarizeOpportunity, DEFAULT_VRA_OPTIONS } from './vra';
+
+const district = (black: number, hispanic: number, white: number) => ({ population: 1000, white, black, hispanic });
+
+describe('classifyOpportunity', () => {
+  it('separates majority-minority from coalition districts', () => {
+    expect(classifyOpportunity(district(600, 100, 300))).toMatchObject({ majorityMinority: true, coalition: false });
+    expect(classifyOpportunity(district(300, 300, 400))).toMatchObject({ majorityMinority: false, coalition: true });
+    expect(classifyOpportunity(district(200, 200, 600))).toMatchObject({ majorityMinority: false, coalition: false });
+  });
+
+  it('can lose a total-population majority on voting-age population', () => {
+    // 52% Hispanic, but Hispanic residents skew younger than the white remainder
+    const flags = classifyOpportunity(district(0, 520, 480));
+    expect(flags.majorityMinority).toBe(true);
+    expect(flags.majorityMinorityVap).toBe(false);
+    expect(isOpportunityDistrict(flags)).toBe(true);
+    expect(isOpportunityDistrict(flags, 'vap')).toBe(false);
+  });
+
+  it('treats an empty district as no opportunity', () => {
+    expect(classifyOpportunity({ population: 0, white: 0, black: 0, hispanic: 0 })).toEqual({
+      majorityMinority: false, coalition: false, majorityMinorityVap: false, coalitionVap: false
+    });
+  });
+});
+
+describe('opportunityShare', () => {
+  it('exceeds the threshold exactly for opportunity districts', () => {
+    [district(600, 100, 300), district(300, 300, 400), district(200, 200, 600), district(0, 520, 480)].forEach(d => {
+      (['total', 'vap'] as const).forEach(basis => {
+        const options = { ...DEFAULT_VRA_OPTIONS, basis };
+        expect(opportunityShare(d, options) > options.threshold).toBe(isOpportunityDistrict(classifyOpportunity(d, options), basis));
+      });
+    });
+  });
+});
+
+describe('summarizeOpportunity', () => {
+  it('counts each flag', () => {
+    const flags = [district(600, 100, 300), district(300, 300, 400), district(0, 520, 480)].map(d => classifyOpportunity(d));
+    expect(summarizeOpportunity(flags)).toEqual({ majorityMinority: 2, coalition: 1, majorityMinorityVap: 1, coalitionVap: 1 });
+  });
+});
@@ -0,0 +1,102 @@
+// Voting Rights Act opportunity districts.
+// A district is majority-minority when a single minority group (Black or Hispanic) is above the
+// threshold, and a coalition district when neither is but the two together are. Each test is
+// run on total population and on a voting-age population (VAP) proxy, since minority
+// populations skew younger and a total-population majority can be a VAP minority.
+
+export type OpportunityBasis = 'total' | 'vap';
+
+export interface VraOptions {
+  threshold: number; // Share that counts as a majority
+  vapRatios: { white: number; black: number; hispanic: number; other: number }; // Adult share of each group
+  basis: OpportunityBasis; // Which test counts for goals and map highlighting
+}
+
+export const DEFAULT_VRA_OPTIONS: VraOptions = {
+  threshold: 0.5,
+  vapRatios: { white: 0.8, black: 0.73, hispanic: 0.67, other: 0.75 },
+  basis: 'total'
+};
+
+export interface OpportunityFlags {
+  majorityMinority: boolean;
+  coalition: boolean;
+  majorityMinorityVap: boolean;
+  coalitionVap: boolean;
+}
+
+export interface OpportunitySummary {
+  majorityMinority: number;
+  coalition: number;
+  majorityMinorityVap: number;
+  coalitionVap: number;
+}
+
+// Per-state "at least N opportunity districts" goal for the annealer
+export interface OpportunityGoal {
+  stateId: number;
+  minDistricts: number;
+}
+
+const test = (black: number, hispanic: number, total: number, threshold: number) => {
+  if (total <= 0) return { majority: false, coalition: false };
+  const majority = black / total > threshold || hispanic / total > threshold;
+  return { majority, coalition: !majority && (black + hispanic) / total > threshold };
+};
+
+export function classifyOpportunity(
+  district: { population: number; white: number; black: number; hispanic: number },
+  options: VraOptions = DEFAULT_VRA_OPTIONS
+): OpportunityFlags {
+  const { population, white, black, hispanic } = district;
+  const { threshold, vapRatios } = options;
+
+  const total = test(black, hispanic, population, threshold);
+
+  const other = Math.max(0, population - white - black - hispanic);
+  const vapBlack = black * vapRatios.black;
+  const vapHispanic = hispanic * vapRatios.hispanic;
+  const vapTotal = white * vapRatios.white + vapBlack + vapHispanic + other * vapRatios.other;
+  const vap = test(vapBlack, vapHispanic, vapTotal, threshold);
+
+  return {
+    majorityMinority: total.majority,
+    coalition: total.coalition,
+    majorityMinorityVap: vap.majority,
+    coalitionVap: vap.coalition
+  };
+}
+
+// Combined Black + Hispanic share on the configured basis. A district is an opportunity district
+// (majority-minority or coalition) exactly when this exceeds the threshold.
+export function opportunityShare(
+  district: { population: number; white: number; black: number; hispanic: number },
+  options: VraOptions = DEFAULT_VRA_OPTIONS
+): number {
+  const { population, white, black, hispanic } = district;
+  if (options.basis === 'total') {
+    return population > 0 ? (black + hispanic) / population : 0;
+  }
+  const { vapRatios } = options;
+  const other = Math.max(0, population - white - black - hispanic);
+  const minority = black * vapRatios.black + hispanic * vapRatios.hispanic;
+  const vapTotal = white * vapRatios.white + minority + other * vapRatios.other;
+  return vapTotal > 0 ? minority / vapTotal : 0;
+}
+
+export function isOpportunityDistrict(flags: OpportunityFlags, basis: OpportunityBasis = 'total'): boolean {
+  return basis === 'vap'
+    ? flags.majorityMinorityVap || flags.coalitionVap
+    : flags.majorityMinority || flags.coalition;
+}
+
+export function summarizeOpportunity(flags: OpportunityFlags[]): OpportunitySummary {
+  const summary: OpportunitySummary = { majorityMinority: 0, coalition: 0, majorityMinorityVap: 0, coalitionVap: 0 };
+  flags.forEach(f => {
+    if (f.majorityMinority) summary.majorityMinority++;
+    if (f.coalition) summary.coalition++;
+    if (f.majorityMinorityVap) summary.majorityMinorityVap++;
+    if (f.coalitionVap) summary.coalitionVap++;
+  });
+  return summary;
+}
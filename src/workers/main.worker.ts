@@ -1,17 +1,105 @@
-import type { WorkerMessage, WorkerResponse, Constraint, PrecinctStats } from '../core/types';
-import { runAnalysis, calculateLinearRegression } from '../core/analysis';
-import { seedAndGrow, simulatedAnnealing } from '../core/algorithms';
+import type { WorkerMessage, WorkerResponse, Constraint, PrecinctStats, AnnealingSchedule } from '../core/types';
+import { runAnalysis, runStateAnalysis, calculateLinearRegression, calculateCompactness, calculateSeatsVotes, summarizeSplits } from '../core/analysis';
+import { seedAndGrow, simulatedAnnealing, recomChain } from '../core/algorithms';
+import type { RecomOptions } from '../core/algorithms';
+import { AdjacencyGraph } from '../core/adjacency';
+import type { AdjacencyMode } from '../core/adjacency';
 import * as turf from '@turf/turf';
 import type { Feature, Polygon, MultiPolygon } from 'geojson';
 import { STATE_APPORTIONMENT } from '../core/Apportionment';
+import { deriveSeed } from '../core/random';
+import { convexHull, polygonArea, polygonPerimeter, SINGLE_RING, toPolygonCoordinates } from '../core/geometry';
+import type { PolygonRings } from '../core/geometry';
+import { addToFront, scorePlan } from '../core/pareto';
+import { outlierReport, planMetrics } from '../core/outliers';
+import { DEFAULT_VRA_OPTIONS } from '../core/vra';
+import { DEFAULT_PROJECTION, forecastStats } from '../core/forecast';
+import type { ProjectionOptions } from '../core/forecast';
+import { calculateCoreRetention } from '../core/retention';
+import type { DistrictRetention, RetentionSummary } from '../core/retention';
+import { calculateCommunitySplits } from '../core/communities';
+import type { Community } from '../core/communities';
+import type { OpportunityGoal, VraOptions } from '../core/vra';
+import type { ParetoFront, ParetoObjective, ParetoPlan } from '../core/pareto';
 
 // Worker State
 const precinctDistrictMap = new Map<number, number>();
 const precinctStatsMap = new Map<number, number[]>(); // [pop, dem, rep, white, black, hispanic]
 const precinctSlopesMap = new Map<number, number[]>(); // [popSlope, demSlope, repSlope, whiteSlope, blackSlope, hispanicSlope]
 const precinctStateMap = new Map<number, number>();
-const precinctCoordsMap = new Map<number, number[]>(); // Store coords for border generation
+const precinctCountyMap = new Map<number, number>();
+const precinctCoordsMap = new Map<number, PolygonRings>(); // Every part and hole, for border generation
 const precinctHistoryMap = new Map<number, PrecinctStats[]>();
+const precinctShapeMap = new Map<number, { area: number, perimeter: number, hull: number[] }>(); // For compactness
+let adjacencyGraph = new AdjacencyGraph(); // Built incrementally as LOAD_DATA batches arrive
+let precinctAdjacency: Map<number, number[]> | null = null; // Cached rook neighbour lists for the algorithms
+let baselineDistrictMap: Map<number, number> | null = null; // Reference plan for core retention
+// Compactness per district, so RUN_ANALYSIS polls only rescan boundaries of districts that changed
+const districtCompactnessCache = new Map<number, ReturnType<typeof calculateCompactness>>();
+
+// Every assignment change goes through here so the districts on both sides drop their cached shape
+const assignDistrict = (precinctId: number, districtId: number) => {
+  const previous = precinctDistrictMap.get(precinctId);
+  if (previous !== undefined) districtCompactnessCache.delete(previous);
+  districtCompactnessCache.delete(districtId);
+  precinctDistrictMap.set(precinctId, districtId);
+};
+
+const getAdjacency = (): Map<number, number[]> => {
+  if (!precinctAdjacency) {
+    precinctAdjacency = adjacencyGraph.toMap('rook');
+  }
+  return precinctAdjacency;
+};
+
+// Global district IDs are stateId * 100 + localDistrictId; the algorithms work on 1..districtCount
+const toLocalDistrict = (districtId: number, stateId: number, districtCount: number): number => {
+  const local = districtId - stateId * 100;
+  return local >= 1 && local <= districtCount ? local : 1;
+};
+
+// Baseline districts of one state in the algorithms' local numbering
+const localBaseline = (precinctIds: number[], stateId: number, districtCount: number): Map<number, number> | undefined => {
+  if (!baselineDistrictMap) return undefined;
+  const local = new Map<number, number>();
+  precinctIds.forEach(pid => {
+    const d = baselineDistrictMap!.get(pid);
+    if (d !== undefined) local.set(pid, toLocalDistrict(d, stateId, districtCount));
+  });
+  return local;
+};
+
+// Communities of interest restricted to one state's precincts, as the algorithms' id lists
+const localCommunities = (communities: Community[], precinctIds: number[]): number[][] => {
+  const inState = new Set(precinctIds);
+  return communities.map(c => c.precinctIds.filter(id => inState.has(id))).filter(ids => ids.length > 1);
+};
+
+// Ensemble size from a message payload, capped so one request can't hold the worker indefinitely
+const MAX_ENSEMBLE_SAMPLES = 5000;
+const ensembleSamples = (samples: unknown): number => {
+  if (typeof samples !== 'number' || !Number.isFinite(samples) || samples < 1) {
+    throw new Error(`Invalid ensemble size: ${String(samples)}`);
+  }
+  return Math.min(Math.floor(samples), MAX_ENSEMBLE_SAMPLES);
+};
+
+// recomChain with the state named in its errors
+const stateRecomChain = (stateId: number, ...args: Parameters<typeof recomChain>): ReturnType<typeof recomChain> => {
+  try {
+    return recomChain(...args);
+  } catch (e) {
+    throw new Error(`${STATE_APPORTIONMENT[stateId]?.name ?? `State ${stateId}`}: ${(e as Error).message}`);
+  }
+};
+
+// Point forecast of [pop, dem, rep, white, black, hispanic]; precincts without history keep their current stats
+const projectPrecinct = (precinctId: number, projection: ProjectionOptions): number[] => {
+  const stats = precinctStatsMap.get(precinctId) || [];
+  const history = precinctHistoryMap.get(precinctId);
+  if (!history) return stats.slice(0, 6);
+  return forecastStats(history, stats, projection.year, projection.model).map(f => Math.max(0, f.value));
+};
 
 self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
   const { id, type, payload } = e.data;
@@ -23,13 +111,20 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
         result = 'PONG';
         break;
       case 'LOAD_DATA': {
-        const { precincts } = payload as { precincts: { id: number, population: number, districtId: number, stateId: number, coords: number[], stats: number[], history?: PrecinctStats[] }[] };
+        const { precincts } = payload as { precincts: { id: number, population: number, districtId: number, stateId: number, countyId?: number, coords: number[], rings?: number[], parts?: number[], stats: number[], history?: PrecinctStats[] }[] };
         precincts.forEach(p => {
-          precinctDistrictMap.set(p.id, p.districtId);
+          assignDistrict(p.id, p.districtId);
           precinctStatsMap.set(p.id, p.stats);
           precinctStateMap.set(p.id, p.stateId);
+          if (p.countyId !== undefined) {
+            precinctCountyMap.set(p.id, p.countyId);
+          }
           if (p.coords) {
-            precinctCoordsMap.set(p.id, p.coords);
+            const shape = { coords: p.coords, rings: p.rings ?? SINGLE_RING, parts: p.parts ?? SINGLE_RING };
+            precinctCoordsMap.set(p.id, shape);
+            adjacencyGraph.addPrecinct(p.id, shape.coords, shape.rings);
+            precinctAdjacency = null;
+            precinctShapeMap.set(p.id, { area: polygonArea(shape), perimeter: polygonPerimeter(shape), hull: convexHull(p.coords) });
           }
           if (p.history) {
             precinctHistoryMap.set(p.id, p.history);
@@ -50,14 +145,33 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
         result = true;
         break;
       }
+      case 'RESET_DATA': {
+        // Before loading a different precinct set
+        [precinctDistrictMap, precinctStatsMap, precinctSlopesMap, precinctStateMap, precinctCountyMap, precinctCoordsMap, precinctHistoryMap, precinctShapeMap]
+          .forEach(map => map.clear());
+        adjacencyGraph = new AdjacencyGraph();
+        precinctAdjacency = null;
+        baselineDistrictMap = null;
+        districtCompactnessCache.clear();
+        result = true;
+        break;
+      }
       case 'UPDATE_DISTRICT': {
         const { precinctId, newDistrict } = payload as { precinctId: number, newDistrict: number };
-        precinctDistrictMap.set(precinctId, newDistrict);
+        assignDistrict(precinctId, newDistrict);
         result = true;
         break;
       }
+      case 'GET_NEIGHBORS': {
+        // Omitting precinctIds returns the whole graph
+        const { precinctIds, mode = 'rook' } = (payload || {}) as { precinctIds?: number[], mode?: AdjacencyMode };
+        const ids = precinctIds ?? Array.from(adjacencyGraph.ids());
+        result = ids.map(pid => [pid, adjacencyGraph.neighbors(pid, mode)]);
+        break;
+      }
       case 'AUTO_REDISTRICT': {
         // We ignore the payload districtCount and use the state apportionment
+        const { seed } = (payload || {}) as { seed?: number };
         
         // Group precincts by state
         const statePrecincts = new Map<number, { id: number, districtId: number, population: number, x: number, y: number }[]>();
@@ -71,7 +185,7 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
             
             // Calculate centroid
             let x = 0, y = 0;
-            const coords = precinctCoordsMap.get(precinctId);
+            const coords = precinctCoordsMap.get(precinctId)?.coords;
             if (coords && coords.length > 0) {
               let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
               for (let i = 0; i < coords.length; i += 2) {
@@ -97,6 +211,7 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
         });
 
         const allUpdates: { id: number; districtId: number }[] = [];
+        const adjacency = getAdjacency();
 
         // Run algorithm for each state
         statePrecincts.forEach((precincts, stateId) => {
@@ -105,13 +220,13 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
 
           const districtCount = apportionment.districts;
           
-          const newAssignment = seedAndGrow(precincts, { districtCount });
+          const newAssignment = seedAndGrow(precincts, { districtCount, adjacency, seed: deriveSeed(seed, stateId) });
           
           newAssignment.forEach((localDistrictId, precinctId) => {
             // Create a unique global district ID: stateId * 100 + localDistrictId
             const globalDistrictId = stateId * 100 + localDistrictId;
             allUpdates.push({ id: precinctId, districtId: globalDistrictId });
-            precinctDistrictMap.set(precinctId, globalDistrictId);
+            assignDistrict(precinctId, globalDistrictId);
           });
         });
         
@@ -119,8 +234,10 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
         break;
       }
       case 'SIMULATED_ANNEALING': {
-        const { constraints, runs: userRuns = 1, isAuto = false } = payload as { constraints: Constraint[], runs?: number, isAuto?: boolean };
-        const statePrecincts = new Map<number, { id: number, districtId: number, population: number, x: number, y: number, stats: number[], slopes: number[] }[]>();
+        const { constraints, runs: userRuns = 1, isAuto = false, contiguous = false, seed, schedule, countySplitWeight = 0, opportunityGoals = [], vra: vraOverrides, projection, retentionWeight = 0, communities = [], communitySplitWeight = 0 } = payload as { constraints: Constraint[], runs?: number, isAuto?: boolean, contiguous?: boolean, seed?: number, schedule?: AnnealingSchedule, countySplitWeight?: number, opportunityGoals?: OpportunityGoal[], vra?: Partial<VraOptions>, projection?: ProjectionOptions, retentionWeight?: number, communities?: Community[], communitySplitWeight?: number };
+        const vra = { ...DEFAULT_VRA_OPTIONS, ...vraOverrides };
+        const projectionFor = constraints.some(c => c.metricType === 'projected') ? (projection ?? DEFAULT_PROJECTION) : null;
+        const statePrecincts = new Map<number, { id: number, districtId: number, population: number, x: number, y: number, stats: number[], slopes: number[], projected?: number[], area: number, perimeter: number, countyId?: number }[]>();
         
         precinctDistrictMap.forEach((districtId, precinctId) => {
           const stateId = precinctStateMap.get(precinctId);
@@ -135,7 +252,11 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
               x: 0, 
               y: 0,
               stats: precinctStatsMap.get(precinctId) || [],
-              slopes: precinctSlopesMap.get(precinctId) || []
+              slopes: precinctSlopesMap.get(precinctId) || [],
+              projected: projectionFor ? projectPrecinct(precinctId, projectionFor) : undefined,
+              area: precinctShapeMap.get(precinctId)?.area || 0,
+              perimeter: precinctShapeMap.get(precinctId)?.perimeter || 0,
+              countyId: precinctCountyMap.get(precinctId)
             });
           }
         });
@@ -151,18 +272,25 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
         // Cap at 50,000 to prevent browser hang
         runs = Math.min(runs, 50000);
 
-        statePrecincts.forEach((precincts, stateId) => {
+        const adjacency = getAdjacency();
+        const sharedBorder = (a: number, b: number) => adjacencyGraph.sharedBorder(a, b);
+
+        statePrecincts.forEach((statePrecinctList, stateId) => {
           const apportionment = STATE_APPORTIONMENT[stateId];
           if (!apportionment) return;
 
           const districtCount = apportionment.districts;
+          const precincts = statePrecinctList.map(p => ({ ...p, districtId: toLocalDistrict(p.districtId, stateId, districtCount) }));
+          const minOpportunityDistricts = opportunityGoals.find(g => g.stateId === stateId)?.minDistricts;
+          const baseline = retentionWeight > 0 ? localBaseline(precincts.map(p => p.id), stateId, districtCount) : undefined;
+          const stateCommunities = communitySplitWeight > 0 ? localCommunities(communities, precincts.map(p => p.id)) : undefined;
           
           let bestAssignment: Map<number, number> | null = null;
           let minCost = Infinity;
 
           // Ensemble Loop
           for (let i = 0; i < runs; i++) {
-            const { assignment, cost } = simulatedAnnealing(precincts, { districtCount, constraints });
+            const { assignment, cost } = simulatedAnnealing(precincts, { districtCount, constraints, adjacency, sharedBorder, preserveContiguity: contiguous, seed: deriveSeed(seed, stateId, i), schedule, countySplitWeight, minOpportunityDistricts, vra, baseline, retentionWeight, communities: stateCommunities, communitySplitWeight });
             if (cost < minCost) {
               minCost = cost;
               bestAssignment = assignment;
@@ -173,7 +301,7 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
             bestAssignment.forEach((localDistrictId, precinctId) => {
               const globalDistrictId = stateId * 100 + localDistrictId;
               allUpdates.push({ id: precinctId, districtId: globalDistrictId });
-              precinctDistrictMap.set(precinctId, globalDistrictId);
+              assignDistrict(precinctId, globalDistrictId);
             });
           }
         });
@@ -181,7 +309,174 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
         result = allUpdates;
         break;
       }
+      case 'PARETO_FRONT': {
+        // Same ensemble as SIMULATED_ANNEALING, but keeps every run that no other run beats on all objectives
+        const { constraints, runs: userRuns = 20, contiguous = false, seed, schedule, countySplitWeight = 0, objectives = ['populationDeviation', 'efficiencyGap', 'compactness'], stateIds, opportunityGoals = [], vra: vraOverrides, projection, retentionWeight = 0, communities = [], communitySplitWeight = 0 } = payload as { constraints: Constraint[], runs?: number, contiguous?: boolean, seed?: number, schedule?: AnnealingSchedule, countySplitWeight?: number, objectives?: ParetoObjective[], stateIds?: number[], opportunityGoals?: OpportunityGoal[], vra?: Partial<VraOptions>, projection?: ProjectionOptions, retentionWeight?: number, communities?: Community[], communitySplitWeight?: number };
+        const vra = { ...DEFAULT_VRA_OPTIONS, ...vraOverrides };
+        const projectionFor = constraints.some(c => c.metricType === 'projected') ? (projection ?? DEFAULT_PROJECTION) : null;
+        const statePrecincts = new Map<number, { id: number, districtId: number, population: number, stats: number[], slopes: number[], projected?: number[], area: number, perimeter: number, countyId?: number }[]>();
+
+        precinctDistrictMap.forEach((districtId, precinctId) => {
+          const stateId = precinctStateMap.get(precinctId);
+          if (stateId === undefined || (stateIds && !stateIds.includes(stateId))) return;
+          if (!statePrecincts.has(stateId)) {
+            statePrecincts.set(stateId, []);
+          }
+          statePrecincts.get(stateId)?.push({
+            id: precinctId,
+            districtId,
+            population: precinctStatsMap.get(precinctId)?.[0] || 0,
+            stats: precinctStatsMap.get(precinctId) || [],
+            slopes: precinctSlopesMap.get(precinctId) || [],
+            projected: projectionFor ? projectPrecinct(precinctId, projectionFor) : undefined,
+            area: precinctShapeMap.get(precinctId)?.area || 0,
+            perimeter: precinctShapeMap.get(precinctId)?.perimeter || 0,
+            countyId: precinctCountyMap.get(precinctId)
+          });
+        });
+
+        // Every run is kept in memory until dominated, so cap lower than the single-best ensemble
+        const runs = Math.min(userRuns, 5000);
+        const adjacency = getAdjacency();
+        const sharedBorder = (a: number, b: number) => adjacencyGraph.sharedBorder(a, b);
+        const neighbors = (id: number) => adjacencyGraph.neighbors(id);
+        const fronts: ParetoFront[] = [];
+
+        statePrecincts.forEach((statePrecinctList, stateId) => {
+          const apportionment = STATE_APPORTIONMENT[stateId];
+          if (!apportionment) return;
+
+          const districtCount = apportionment.districts;
+          const precincts = statePrecinctList.map(p => ({ ...p, districtId: toLocalDistrict(p.districtId, stateId, districtCount) }));
+          const precinctIds = precincts.map(p => p.id);
+          const minOpportunityDistricts = opportunityGoals.find(g => g.stateId === stateId)?.minDistricts;
+          const baseline = retentionWeight > 0 ? localBaseline(precinctIds, stateId, districtCount) : undefined;
+          const stateCommunities = communitySplitWeight > 0 ? localCommunities(communities, precinctIds) : undefined;
+          const plans: ParetoPlan[] = [];
+
+          for (let i = 0; i < runs; i++) {
+            const { assignment, breakdown } = simulatedAnnealing(precincts, { districtCount, constraints, adjacency, sharedBorder, preserveContiguity: contiguous, seed: deriveSeed(seed, stateId, i), schedule, countySplitWeight, minOpportunityDistricts, vra, baseline, retentionWeight, communities: stateCommunities, communitySplitWeight });
+            addToFront(plans, {
+              scores: scorePlan(precincts, assignment, neighbors, breakdown),
+              assignment: precinctIds.map(pid => assignment.get(pid)!)
+            }, objectives);
+          }
+
+          plans.sort((a, b) => a.scores[objectives[0]] - b.scores[objectives[0]]);
+          fronts.push({ stateId, precinctIds, plans });
+        });
+
+        result = fronts;
+        break;
+      }
+      case 'ASSIGN_DISTRICTS': {
+        // Bulk counterpart of UPDATE_DISTRICT, e.g. when applying a stored plan
+        const { updates } = payload as { updates: { id: number, districtId: number }[] };
+        updates.forEach(u => assignDistrict(u.id, u.districtId));
+        result = true;
+        break;
+      }
+      case 'SET_BASELINE': {
+        // Reference plan for core retention: the given assignment, the current one when omitted, or none with `clear`
+        const { updates, clear = false } = (payload || {}) as { updates?: { id: number, districtId: number }[], clear?: boolean };
+        if (clear) {
+          baselineDistrictMap = null;
+        } else {
+          baselineDistrictMap = updates ? new Map(updates.map(u => [u.id, u.districtId])) : new Map(precinctDistrictMap);
+        }
+        result = true;
+        break;
+      }
+      case 'RECOM_ENSEMBLE': {
+        // Returns `samples` plans per state; plans[i][j] is the local district of precinctIds[j]
+        const { stateIds, seed, ...options } = payload as RecomOptions & { stateIds?: number[], seed?: number };
+        const samples = ensembleSamples(options.samples);
+        const statePrecincts = new Map<number, { id: number, districtId: number, population: number }[]>();
+
+        precinctDistrictMap.forEach((districtId, precinctId) => {
+          const stateId = precinctStateMap.get(precinctId);
+          if (stateId === undefined || (stateIds && !stateIds.includes(stateId))) return;
+          if (!statePrecincts.has(stateId)) {
+            statePrecincts.set(stateId, []);
+          }
+          statePrecincts.get(stateId)?.push({
+            id: precinctId,
+            districtId,
+            population: precinctStatsMap.get(precinctId)?.[0] || 0
+          });
+        });
+
+        const adjacency = getAdjacency();
+        const ensembles: { stateId: number, precinctIds: number[], plans: number[][] }[] = [];
+
+        statePrecincts.forEach((statePrecinctList, stateId) => {
+          const apportionment = STATE_APPORTIONMENT[stateId];
+          if (!apportionment) return;
+
+          const districtCount = apportionment.districts;
+          const precincts = statePrecinctList.map(p => ({ ...p, districtId: toLocalDistrict(p.districtId, stateId, districtCount) }));
+          const precinctIds = precincts.map(p => p.id);
+
+          const plans = stateRecomChain(stateId, precincts, { districtCount, adjacency, seed: deriveSeed(seed, stateId) }, { ...options, samples });
+          ensembles.push({
+            stateId,
+            precinctIds,
+            plans: plans.map(plan => precinctIds.map(pid => plan.get(pid)!))
+          });
+        });
+
+        result = ensembles;
+        break;
+      }
+      case 'ENSEMBLE_OUTLIER': {
+        // ReCom ensemble for one state, started from a fresh seed-and-grow plan so the
+        // chain doesn't inherit the structure of the plan under test
+        const { stateId, seed, ...options } = payload as RecomOptions & { stateId: number, seed?: number };
+        const apportionment = STATE_APPORTIONMENT[stateId];
+        if (!apportionment) throw new Error(`Unknown state: ${stateId}`);
+
+        const districtCount = apportionment.districts;
+        const precincts: { id: number, districtId: number, population: number, x: number, y: number, stats: number[], area: number, perimeter: number }[] = [];
+
+        precinctDistrictMap.forEach((districtId, precinctId) => {
+          if (precinctStateMap.get(precinctId) !== stateId) return;
+
+          let x = 0, y = 0;
+          const hull = precinctShapeMap.get(precinctId)?.hull ?? [];
+          for (let i = 0; i < hull.length; i += 2) {
+            x += hull[i];
+            y += hull[i + 1];
+          }
+          const vertices = Math.max(1, hull.length / 2);
+
+          precincts.push({
+            id: precinctId,
+            districtId,
+            population: precinctStatsMap.get(precinctId)?.[0] || 0,
+            x: x / vertices,
+            y: y / vertices,
+            stats: precinctStatsMap.get(precinctId) || [],
+            area: precinctShapeMap.get(precinctId)?.area || 0,
+            perimeter: precinctShapeMap.get(precinctId)?.perimeter || 0
+          });
+        });
+
+        const adjacency = getAdjacency();
+        const neighbors = (pid: number) => adjacencyGraph.neighbors(pid);
+
+        const current = planMetrics(precincts, new Map(precincts.map(p => [p.id, p.districtId])), neighbors);
+
+        const start = seedAndGrow(precincts, { districtCount, adjacency, seed: deriveSeed(seed, stateId) });
+        const startPrecincts = precincts.map(p => ({ ...p, districtId: start.get(p.id)! }));
+        const samples = ensembleSamples(options.samples);
+        const plans = stateRecomChain(stateId, startPrecincts, { districtCount, adjacency, seed: deriveSeed(seed, stateId, 1) }, { ...options, samples });
+
+        result = outlierReport(stateId, current, plans.map(plan => planMetrics(precincts, plan, neighbors)));
+        break;
+      }
       case 'GENERATE_BORDERS': {
+        // `smooth: false` keeps the exact precinct-edge union, e.g. for exports that must share boundaries
+        const { smooth = true } = (payload || {}) as { smooth?: boolean };
         const districts = new Map<number, Feature<Polygon | MultiPolygon>>(); // districtId -> mergedPolygon
         
         // Group precincts by district
@@ -198,26 +493,19 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
           let merged: Feature<Polygon | MultiPolygon> | null = null;
           
           for (const pid of precinctIds) {
-            const coords = precinctCoordsMap.get(pid);
-            if (!coords || coords.length < 6) continue; // Need at least 3 points (6 numbers)
-
-            // Convert flat coords to GeoJSON polygon ring
-            const ring: number[][] = [];
-            for (let i = 0; i < coords.length; i += 2) {
-              ring.push([coords[i], coords[i+1]]);
-            }
-            // Ensure closed ring
-            if (ring.length > 0 && (ring[0][0] !== ring[ring.length-1][0] || ring[0][1] !== ring[ring.length-1][1])) {
-              ring.push(ring[0]);
-            }
+            const shape = precinctCoordsMap.get(pid);
+            if (!shape) continue;
 
-            const poly = turf.polygon([ring]);
+            // Closed GeoJSON rings for every part, holes included
+            const polygons = toPolygonCoordinates(shape);
+            if (polygons.length === 0) continue;
+            const poly: Feature<Polygon | MultiPolygon> = polygons.length === 1 ? turf.polygon(polygons[0]) : turf.multiPolygon(polygons);
 
             if (!merged) {
               merged = poly;
             } else {
               try {
-                merged = turf.union(turf.featureCollection([merged, poly]));
+                merged = turf.union(turf.featureCollection<Polygon | MultiPolygon>([merged, poly]));
               } catch (e) {
                 // Handle union errors (e.g. self-intersection) gracefully
                 console.warn(`Union failed for district ${districtId}`, e);
@@ -225,7 +513,9 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
             }
           }
           
-          if (merged) {
+          if (merged && !smooth) {
+            districts.set(districtId, merged);
+          } else if (merged) {
             // 1. Simplify to remove jagged edges from grid/voronoi union
             const simplified = turf.simplify(merged, { tolerance: 0.5, highQuality: true });
             
@@ -262,7 +552,40 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
         result = Array.from(districts.entries());
         break;
       }
+      case 'SEATS_VOTES': {
+        const { stateIds, maxSwing, step } = (payload || {}) as { stateIds?: number[], maxSwing?: number, step?: number };
+        const stateDistrictVotes = new Map<number, Map<number, { demVotes: number, repVotes: number }>>(); // stateId -> districtId -> votes
+
+        precinctDistrictMap.forEach((districtId, precinctId) => {
+          const stateId = precinctStateMap.get(precinctId);
+          const stats = precinctStatsMap.get(precinctId);
+          if (stateId === undefined || !stats || (stateIds && !stateIds.includes(stateId))) return;
+
+          if (!stateDistrictVotes.has(stateId)) {
+            stateDistrictVotes.set(stateId, new Map());
+          }
+          const districts = stateDistrictVotes.get(stateId)!;
+          if (!districts.has(districtId)) {
+            districts.set(districtId, { demVotes: 0, repVotes: 0 });
+          }
+          const d = districts.get(districtId)!;
+          d.demVotes += stats[1];
+          d.repVotes += stats[2];
+        });
+
+        result = Array.from(stateDistrictVotes.entries())
+          .map(([stateId, districts]) => ({
+            stateId,
+            name: STATE_APPORTIONMENT[stateId]?.name ?? `State ${stateId}`,
+            curve: calculateSeatsVotes(Array.from(districts.values()), maxSwing, step)
+          }))
+          .sort((a, b) => a.name.localeCompare(b.name));
+        break;
+      }
       case 'RUN_ANALYSIS': {
+        const { vra: vraOverrides, competitiveBands, populationTolerance, communities = [] } = (payload || {}) as { vra?: Partial<VraOptions>, competitiveBands?: number[], populationTolerance?: number, communities?: Community[] };
+        const vra = { ...DEFAULT_VRA_OPTIONS, ...vraOverrides };
+
         // Aggregate data from internal state
         const districtStats = new Map<number, {
           population: number,
@@ -272,10 +595,15 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
           black: number,
           hispanic: number,
           educationProduct: number,
-          incomeProduct: number
+          incomeProduct: number,
+          area: number,
+          perimeter: number,
+          points: number[]
         }>();
         
         const districtHistory = new Map<number, Map<number, PrecinctStats>>(); // districtId -> year -> stats
+        const stateCountyDistricts = new Map<number, Map<number, Set<number>>>(); // stateId -> countyId -> districtIds
+        const stateDistricts = new Map<number, Set<number>>(); // stateId -> districtIds
 
         precinctDistrictMap.forEach((districtId, precinctId) => {
           const stats = precinctStatsMap.get(precinctId);
@@ -290,10 +618,32 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
               black: 0,
               hispanic: 0,
               educationProduct: 0,
-              incomeProduct: 0
+              incomeProduct: 0,
+              area: 0,
+              perimeter: 0,
+              points: []
             });
           }
           
+          const stateId = precinctStateMap.get(precinctId);
+          const countyId = precinctCountyMap.get(precinctId);
+          if (stateId !== undefined) {
+            if (!stateCountyDistricts.has(stateId)) {
+              stateCountyDistricts.set(stateId, new Map());
+            }
+            if (!stateDistricts.has(stateId)) {
+              stateDistricts.set(stateId, new Set());
+            }
+            stateDistricts.get(stateId)!.add(districtId);
+            const counties = stateCountyDistricts.get(stateId)!;
+            if (countyId !== undefined) {
+              if (!counties.has(countyId)) {
+                counties.set(countyId, new Set());
+              }
+              counties.get(countyId)!.add(districtId);
+            }
+          }
+
           const d = districtStats.get(districtId)!;
           // Stats array: [pop, dem, rep, white, black, hispanic, education, income]
           const pop = stats[0];
@@ -306,6 +656,18 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
           d.educationProduct += (stats[6] || 0) * pop;
           d.incomeProduct += (stats[7] || 0) * pop;
 
+          // Shape: borders shared with same-district neighbours are interior, not perimeter.
+          // Skipped for districts whose compactness is still cached.
+          const shape = districtCompactnessCache.has(districtId) ? undefined : precinctShapeMap.get(precinctId);
+          if (shape) {
+            d.area += shape.area;
+            d.perimeter += shape.perimeter;
+            adjacencyGraph.neighbors(precinctId).forEach(n => {
+              if (precinctDistrictMap.get(n.id) === districtId) d.perimeter -= n.sharedLength;
+            });
+            for (let i = 0; i < shape.hull.length; i++) d.points.push(shape.hull[i]);
+          }
+
           // History Aggregation
           const history = precinctHistoryMap.get(precinctId);
           if (history) {
@@ -352,6 +714,15 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
           }
         });
         
+        const compactnessOf = (id: number, geometry: { area: number, perimeter: number, points: number[] }) => {
+          let compactness = districtCompactnessCache.get(id);
+          if (!compactness) {
+            compactness = calculateCompactness(geometry);
+            districtCompactnessCache.set(id, compactness);
+          }
+          return compactness;
+        };
+
         const districts = Array.from(districtStats.entries()).map(([id, s]) => {
           const dHistMap = districtHistory.get(id);
           const history = dHistMap ? Array.from(dHistMap.entries()).map(([, stats]) => ({
@@ -371,6 +742,7 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
             education: s.population > 0 ? s.educationProduct / s.population : 0,
             income: s.population > 0 ? s.incomeProduct / s.population : 0,
             efficiencyGap: 0, // Calculated in runAnalysis
+            ...compactnessOf(id, s),
             history
           };
         });
@@ -378,6 +750,7 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
 
         // Partisan Swing Simulation
         const projections: { id: number, dem: number, rep: number }[] = [];
+        const projectedVotes = new Map<number, { projectedDemVotes: number, projectedRepVotes: number }>(); // districtId -> projected totals
         const SWING_FACTOR = 0.15;
 
         precinctDistrictMap.forEach((districtId, precinctId) => {
@@ -403,10 +776,49 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
           const newRep = pTotal - newDem;
 
           projections.push({ id: precinctId, dem: newDem, rep: newRep });
+
+          if (!projectedVotes.has(districtId)) {
+            projectedVotes.set(districtId, { projectedDemVotes: 0, projectedRepVotes: 0 });
+          }
+          const projected = projectedVotes.get(districtId)!;
+          projected.projectedDemVotes += newDem;
+          projected.projectedRepVotes += newRep;
         });
 
-        const analysis = runAnalysis({ districts });
-        result = { analysis, projections };
+        // Core retention against the baseline plan, per state
+        const stateRetention = new Map<number, RetentionSummary>();
+        const districtRetention = new Map<number, DistrictRetention>();
+        if (baselineDistrictMap) {
+          const stateAssignments = new Map<number, Map<number, number>>();
+          precinctDistrictMap.forEach((districtId, precinctId) => {
+            const stateId = precinctStateMap.get(precinctId);
+            if (stateId === undefined) return;
+            if (!stateAssignments.has(stateId)) stateAssignments.set(stateId, new Map());
+            stateAssignments.get(stateId)!.set(precinctId, districtId);
+          });
+          stateAssignments.forEach((assignment, stateId) => {
+            const retention = calculateCoreRetention(baselineDistrictMap!, assignment, pid => precinctStatsMap.get(pid)?.[0] ?? 0);
+            stateRetention.set(stateId, retention);
+            retention.districts.forEach(r => districtRetention.set(r.districtId, r));
+          });
+        }
+
+        const projectedOf = (districtId: number) => projectedVotes.get(districtId) ?? { projectedDemVotes: 0, projectedRepVotes: 0 };
+        const analysis = runAnalysis({ districts: districts.map(d => ({ ...d, ...projectedOf(d.id), coreRetention: districtRetention.get(d.id) })), vra, competitiveBands });
+        const states = Array.from(stateCountyDistricts.entries())
+          .map(([stateId, countyDistricts]) => runStateAnalysis({
+            stateId,
+            countyDistricts,
+            districts: Array.from(stateDistricts.get(stateId) ?? []).map(dId => ({ id: dId, ...districtStats.get(dId)!, ...projectedOf(dId) })),
+            vra,
+            competitiveBands,
+            populationTolerance,
+            retention: stateRetention.get(stateId)
+          }))
+          .sort((a, b) => a.name.localeCompare(b.name));
+        const communitySplits = calculateCommunitySplits(communities, pid => precinctDistrictMap.get(pid), pid => precinctStatsMap.get(pid)?.[0] ?? 0);
+        const communitySummary = summarizeSplits(new Map(communitySplits.map((c, i) => [i, new Set(c.districts.map(d => d.districtId))])));
+        result = { analysis, projections, states, communities: communitySplits, communitySummary };
         break;
       }
       default: